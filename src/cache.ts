@@ -0,0 +1,154 @@
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Storage backend for cached Parcl responses. Implement this to back the cache with a file,
+// Redis or any other shared store and install it with `setCacheStore`.
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  stored_at: string;
+  expires_at: string;
+  age_seconds: number;
+}
+
+export interface CacheSummary {
+  hit: boolean;
+  requests: number;
+  stored_at: string | null;
+  expires_at: string | null;
+  age_seconds: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CACHE_TTLS: Record<string, number> = {
+  search_markets: 24 * HOUR_MS,
+  price_feed: 6 * HOUR_MS,
+  rental_price_feed: 6 * HOUR_MS,
+  volatility: 6 * HOUR_MS,
+  for_sale_inventory: 12 * HOUR_MS,
+  for_sale_inventory_price_changes: 12 * HOUR_MS,
+  new_listings_rolling_counts: 12 * HOUR_MS,
+  gross_yield: 24 * HOUR_MS,
+  new_listings_for_rent_rolling_counts: 12 * HOUR_MS,
+  rental_units_concentration: 24 * HOUR_MS,
+  housing_stock: 24 * HOUR_MS,
+  all_cash: 24 * HOUR_MS,
+  housing_event_counts: 24 * HOUR_MS,
+  housing_event_prices: 24 * HOUR_MS,
+  housing_event_property_attributes: 24 * HOUR_MS,
+  new_construction_housing_event_counts: 24 * HOUR_MS,
+  new_construction_housing_event_prices: 24 * HOUR_MS,
+  investor_housing_event_counts: 24 * HOUR_MS,
+  investor_purchase_to_sale_ratio: 24 * HOUR_MS,
+  investor_housing_stock_ownership: 24 * HOUR_MS,
+  portfolio_housing_stock_ownership: 24 * HOUR_MS,
+  portfolio_housing_event_counts: 24 * HOUR_MS,
+  portfolio_new_listings_for_sale: 24 * HOUR_MS,
+  portfolio_new_listings_for_rent: 24 * HOUR_MS,
+  property_search: 24 * HOUR_MS,
+  address_search: 7 * 24 * HOUR_MS,
+  property_event_history: 24 * HOUR_MS,
+};
+
+const DEFAULT_TTL = HOUR_MS;
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+let store: CacheStore = new MemoryCacheStore();
+
+export const setCacheStore = (next: CacheStore) => {
+  store = next;
+};
+
+// Keys are stable regardless of parameter order and ignore parameters that were not set.
+export const cacheKey = (endpoint: string, params: object) =>
+  `${endpoint}?${Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+    .join("&")}`;
+
+const toCacheInfo = (key: string, entry: CacheEntry, hit: boolean): CacheInfo => ({
+  hit,
+  key,
+  stored_at: new Date(entry.storedAt).toISOString(),
+  expires_at: new Date(entry.expiresAt).toISOString(),
+  age_seconds: Math.round((Date.now() - entry.storedAt) / 1000),
+});
+
+export const cached = async <T>(
+  endpoint: string,
+  params: object,
+  load: () => Promise<T>
+): Promise<{ data: T; cache: CacheInfo }> => {
+  const key = cacheKey(endpoint, params);
+  const existing = await store.get<T>(key);
+
+  if (existing) {
+    return { data: existing.value, cache: toCacheInfo(key, existing, true) };
+  }
+
+  const storedAt = Date.now();
+  const entry: CacheEntry<T> = {
+    value: await load(),
+    storedAt,
+    expiresAt: storedAt + (CACHE_TTLS[endpoint] ?? DEFAULT_TTL),
+  };
+  await store.set(key, entry);
+
+  return { data: entry.value, cache: toCacheInfo(key, entry, false) };
+};
+
+// Summarizes several cached requests: a hit only if every request was served from the cache,
+// with the age of the oldest response. Summaries can be combined again.
+export const combineCacheInfo = (infos: Array<CacheInfo | CacheSummary>): CacheSummary => ({
+  hit: infos.every((info) => info.hit),
+  requests: infos.reduce((sum, info) => sum + ("requests" in info ? info.requests : 1), 0),
+  stored_at: infos.flatMap((info) => info.stored_at ?? []).sort()[0] ?? null,
+  expires_at: infos.flatMap((info) => info.expires_at ?? []).sort()[0] ?? null,
+  age_seconds: Math.max(0, ...infos.map((info) => info.age_seconds)),
+});
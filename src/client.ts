@@ -0,0 +1,300 @@
+import type labsV2 from "@api/labs-v2";
+
+import { ConfigError, ParclApiError } from "./errors";
+
+// The generated client is only used for its types: requests go through `ParclClient` so the
+// server and transport can be swapped, which the generated client does not support.
+type ParclSdk = typeof labsV2;
+
+type Operation = {
+  [K in keyof ParclSdk]: ParclSdk[K] extends (...args: any[]) => Promise<{ data: unknown }>
+    ? K
+    : never;
+}[keyof ParclSdk];
+
+type Params<K extends Operation> = ParclSdk[K] extends (params: infer P, ...rest: any[]) => any
+  ? P
+  : never;
+
+type Result<K extends Operation> = ParclSdk[K] extends (
+  ...args: any[]
+) => Promise<{ data: infer R }>
+  ? R
+  : never;
+
+export type Fetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ParclClientOptions {
+  apiKey: string;
+  // Overrides the API server, e.g. to point the service at a local mock server in tests.
+  baseUrl?: string;
+  timeoutMs?: number;
+  // Transport used to send requests; defaults to the global fetch.
+  fetch?: Fetch;
+}
+
+// Method and path of each Parcl Labs endpoint used by the service, also reported to agents as
+// the source of the data.
+export const ENDPOINTS = {
+  searchMarkets: "GET /v1/search/markets",
+  priceFeed: "GET /v1/price_feed/{parcl_id}/price_feed",
+  priceFeedBatch: "POST /v1/price_feed/price_feed",
+  rentalPriceFeed: "GET /v1/price_feed/{parcl_id}/rental_price_feed",
+  rentalPriceFeedBatch: "POST /v1/price_feed/rental_price_feed",
+  volatility: "GET /v1/price_feed/{parcl_id}/volatility",
+  forSaleInventory: "GET /v1/for_sale_market_metrics/{parcl_id}/for_sale_inventory",
+  forSaleInventoryPriceChanges:
+    "GET /v1/for_sale_market_metrics/{parcl_id}/for_sale_inventory_price_changes",
+  newListingsRollingCounts:
+    "GET /v1/for_sale_market_metrics/{parcl_id}/new_listings_rolling_counts",
+  grossYield: "GET /v1/rental_market_metrics/{parcl_id}/gross_yield",
+  newListingsForRent:
+    "GET /v1/rental_market_metrics/{parcl_id}/new_listings_for_rent_rolling_counts",
+  rentalUnitsConcentration: "GET /v1/rental_market_metrics/{parcl_id}/rental_units_concentration",
+  housingStock: "GET /v1/market_metrics/{parcl_id}/housing_stock",
+  allCash: "GET /v1/market_metrics/{parcl_id}/all_cash",
+  housingEventCounts: "GET /v1/market_metrics/{parcl_id}/housing_event_counts",
+  housingEventPrices: "GET /v1/market_metrics/{parcl_id}/housing_event_prices",
+  housingEventPropertyAttributes:
+    "GET /v1/market_metrics/{parcl_id}/housing_event_property_attributes",
+  newConstructionHousingEventCounts:
+    "GET /v1/new_construction_metrics/{parcl_id}/housing_event_counts",
+  newConstructionHousingEventPrices:
+    "GET /v1/new_construction_metrics/{parcl_id}/housing_event_prices",
+  investorHousingEventCounts: "GET /v1/investor_metrics/{parcl_id}/housing_event_counts",
+  investorPurchaseToSaleRatio: "GET /v1/investor_metrics/{parcl_id}/purchase_to_sale_ratio",
+  investorHousingStockOwnership: "GET /v1/investor_metrics/{parcl_id}/housing_stock_ownership",
+  portfolioHousingEventCounts: "GET /v1/portfolio_metrics/{parcl_id}/sf_housing_event_counts",
+  portfolioHousingStockOwnership: "GET /v1/portfolio_metrics/{parcl_id}/sf_housing_stock_ownership",
+  portfolioNewListingsForSale:
+    "GET /v1/portfolio_metrics/{parcl_id}/sf_new_listings_for_sale_rolling_counts",
+  portfolioNewListingsForRent:
+    "GET /v1/portfolio_metrics/{parcl_id}/sf_new_listings_for_rent_rolling_counts",
+  searchProperties: "GET /v1/property/search",
+  searchAddresses: "POST /v1/property/search_address",
+  propertyEventHistory: "POST /v1/property/event_history",
+} as const;
+
+export const DEFAULT_BASE_URL = "https://api.parcllabs.com";
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+const parseBody = (text: string): unknown => {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return text;
+  }
+};
+
+// Typed access to the Parcl Labs endpoints used by the service. The API key and server are
+// validated once, when the client is created.
+export class ParclClient {
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+  private fetch: Fetch;
+
+  constructor({ apiKey, baseUrl, timeoutMs, fetch: transport }: ParclClientOptions) {
+    if (!apiKey || !apiKey.trim()) {
+      throw new ConfigError("A Parcl Labs API key is required");
+    }
+
+    this.apiKey = apiKey.trim();
+    this.baseUrl = (baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.timeoutMs = timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fetch = transport ?? ((url, init) => fetch(url, init));
+  }
+
+  // Reads PARCL_API_KEY, PARCL_API_URL and PARCL_TIMEOUT_MS, failing fast when they are unusable.
+  static fromEnv(env: NodeJS.ProcessEnv = process.env) {
+    const apiKey = env.PARCL_API_KEY?.trim();
+    const timeoutMs = env.PARCL_TIMEOUT_MS ? Number(env.PARCL_TIMEOUT_MS) : undefined;
+
+    if (!apiKey || apiKey === "undefined") {
+      throw new ConfigError("PARCL_API_KEY must be set to a Parcl Labs API key");
+    }
+    if (timeoutMs !== undefined && !(Number.isInteger(timeoutMs) && timeoutMs > 0)) {
+      throw new ConfigError("PARCL_TIMEOUT_MS must be a positive number of milliseconds");
+    }
+
+    return new ParclClient({ apiKey, baseUrl: env.PARCL_API_URL || undefined, timeoutMs });
+  }
+
+  readonly searchMarkets = this.operation<"search_markets_v1_search_markets_get">(
+    ENDPOINTS.searchMarkets
+  );
+  readonly priceFeed = this.operation<"price_feed_v1_price_feed__parcl_id__price_feed_get">(
+    ENDPOINTS.priceFeed
+  );
+  readonly priceFeedBatch = this.operation<"price_feed_v1_price_feed_price_feed_post">(
+    ENDPOINTS.priceFeedBatch
+  );
+  readonly rentalPriceFeed =
+    this.operation<"rental_price_feed_v1_price_feed__parcl_id__rental_price_feed_get">(
+      ENDPOINTS.rentalPriceFeed
+    );
+  readonly rentalPriceFeedBatch =
+    this.operation<"rental_price_feed_v1_price_feed_rental_price_feed_post">(
+      ENDPOINTS.rentalPriceFeedBatch
+    );
+  readonly volatility = this.operation<"volatility_v1_price_feed__parcl_id__volatility_get">(
+    ENDPOINTS.volatility
+  );
+  readonly forSaleInventory =
+    this.operation<"for_sale_inventory_v1_for_sale_market_metrics__parcl_id__for_sale_inventory_get">(
+      ENDPOINTS.forSaleInventory
+    );
+  readonly forSaleInventoryPriceChanges =
+    this.operation<"for_sale_inventory_price_changes_v1_for_sale_market_metrics__parcl_id__for_sale_inventory_price_changes_get">(
+      ENDPOINTS.forSaleInventoryPriceChanges
+    );
+  readonly newListingsRollingCounts =
+    this.operation<"new_listings_rolling_counts_v1_for_sale_market_metrics__parcl_id__new_listings_rolling_counts_get">(
+      ENDPOINTS.newListingsRollingCounts
+    );
+  readonly grossYield =
+    this.operation<"gross_yield_v1_rental_market_metrics__parcl_id__gross_yield_get">(
+      ENDPOINTS.grossYield
+    );
+  readonly newListingsForRent =
+    this.operation<"new_listings_for_rent_rolling_counts_v1_rental_market_metrics__parcl_id__new_listings_for_rent_rolling_counts_get">(
+      ENDPOINTS.newListingsForRent
+    );
+  readonly rentalUnitsConcentration =
+    this.operation<"rental_units_concentration_v1_rental_market_metrics__parcl_id__rental_units_concentration_get">(
+      ENDPOINTS.rentalUnitsConcentration
+    );
+  readonly housingStock =
+    this.operation<"housing_stock_v1_market_metrics__parcl_id__housing_stock_get">(
+      ENDPOINTS.housingStock
+    );
+  readonly allCash = this.operation<"all_cash_v1_market_metrics__parcl_id__all_cash_get">(
+    ENDPOINTS.allCash
+  );
+  readonly housingEventCounts =
+    this.operation<"housing_event_counts_v1_market_metrics__parcl_id__housing_event_counts_get">(
+      ENDPOINTS.housingEventCounts
+    );
+  readonly housingEventPrices =
+    this.operation<"housing_event_prices_v1_market_metrics__parcl_id__housing_event_prices_get">(
+      ENDPOINTS.housingEventPrices
+    );
+  readonly housingEventPropertyAttributes =
+    this.operation<"housing_event_property_attributes_v1_market_metrics__parcl_id__housing_event_property_attributes_get">(
+      ENDPOINTS.housingEventPropertyAttributes
+    );
+  readonly newConstructionHousingEventCounts =
+    this.operation<"new_construction_housing_event_counts_v1_new_construction_metrics__parcl_id__housing_event_counts_get">(
+      ENDPOINTS.newConstructionHousingEventCounts
+    );
+  readonly newConstructionHousingEventPrices =
+    this.operation<"new_construction_housing_event_prices_v1_new_construction_metrics__parcl_id__housing_event_prices_get">(
+      ENDPOINTS.newConstructionHousingEventPrices
+    );
+  readonly investorHousingEventCounts =
+    this.operation<"housing_event_counts_v1_investor_metrics__parcl_id__housing_event_counts_get">(
+      ENDPOINTS.investorHousingEventCounts
+    );
+  readonly investorPurchaseToSaleRatio =
+    this.operation<"purchase_to_sale_ratio_v1_investor_metrics__parcl_id__purchase_to_sale_ratio_get">(
+      ENDPOINTS.investorPurchaseToSaleRatio
+    );
+  readonly investorHousingStockOwnership =
+    this.operation<"housing_stock_ownership_v1_investor_metrics__parcl_id__housing_stock_ownership_get">(
+      ENDPOINTS.investorHousingStockOwnership
+    );
+  readonly portfolioHousingEventCounts =
+    this.operation<"sf_housing_event_counts_v1_portfolio_metrics__parcl_id__sf_housing_event_counts_get">(
+      ENDPOINTS.portfolioHousingEventCounts
+    );
+  readonly portfolioHousingStockOwnership =
+    this.operation<"sf_housing_stock_ownership_v1_portfolio_metrics__parcl_id__sf_housing_stock_ownership_get">(
+      ENDPOINTS.portfolioHousingStockOwnership
+    );
+  readonly portfolioNewListingsForSale =
+    this.operation<"sf_new_listings_for_sale_rolling_counts_v1_portfolio_metrics__parcl_id__sf_new_listings_for_sale_rolling_counts_get">(
+      ENDPOINTS.portfolioNewListingsForSale
+    );
+  readonly portfolioNewListingsForRent =
+    this.operation<"sf_new_listings_for_rent_rolling_counts_v1_portfolio_metrics__parcl_id__sf_new_listings_for_rent_rolling_counts_get">(
+      ENDPOINTS.portfolioNewListingsForRent
+    );
+  readonly searchProperties = this.operation<"search_v1_property_search_get">(
+    ENDPOINTS.searchProperties
+  );
+  readonly searchAddresses = this.operation<"search_address_v1_property_search_address_post">(
+    ENDPOINTS.searchAddresses
+  );
+  readonly propertyEventHistory = this.operation<"property_events_v1_property_event_history_post">(
+    ENDPOINTS.propertyEventHistory
+  );
+
+  // GET parameters fill the `{name}` placeholders of the path and the rest become the query
+  // string; POST parameters are sent as the JSON body.
+  private operation<K extends Operation>(route: string) {
+    const [method, path] = route.split(" ");
+
+    return (params: Params<K>): Promise<Result<K>> => {
+      if (method === "POST") {
+        return this.request(method, path, params);
+      }
+
+      const query = new URLSearchParams();
+      const url = path.replace(/{(\w+)}/g, (_, name) =>
+        encodeURIComponent(String((params as Record<string, unknown>)[name]))
+      );
+
+      for (const [name, value] of Object.entries((params ?? {}) as Record<string, unknown>)) {
+        if (value === undefined || value === null || path.includes(`{${name}}`)) {
+          continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+          query.append(name, String(item));
+        }
+      }
+
+      const search = query.toString();
+      return this.request(method, search ? `${url}?${search}` : url);
+    };
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: this.apiKey,
+          Accept: "application/json",
+          ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const data = parseBody(await response.text());
+
+      if (!response.ok) {
+        throw new ParclApiError(response.status, data);
+      }
+
+      return data as T;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+let client: ParclClient | undefined;
+
+export const setParclClient = (next: ParclClient) => {
+  client = next;
+};
+
+export const getParclClient = () => {
+  if (!client) {
+    throw new ConfigError("The Parcl Labs client has not been configured");
+  }
+  return client;
+};
@@ -0,0 +1,201 @@
+import { z } from "zod";
+
+import { ToolConfig } from "@dainprotocol/service-sdk";
+
+import { card } from "./ui";
+
+export const TOOL_ERROR_CODES = [
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "VALIDATION_ERROR",
+  "RATE_LIMITED",
+  "UPSTREAM_ERROR",
+  "NETWORK_ERROR",
+  "NO_DATA",
+  "MARKET_NOT_FOUND",
+  "MARKET_AMBIGUOUS",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  retryable: boolean;
+  status?: number;
+}
+
+// Raised when the API answers successfully but has no observations for the request.
+export class NoDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoDataError";
+    // Keeps `instanceof` working when compiled for targets without native class support.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Raised at startup when the service is missing configuration it cannot run without.
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Raised for any non-2xx response from the Parcl Labs API, with the parsed error body.
+export class ParclApiError extends Error {
+  constructor(public status: number, public data: unknown) {
+    super(`Parcl Labs API request failed with HTTP ${status}`);
+    this.name = "ParclApiError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Parcl error bodies carry a `detail` that is either a message or a validation error object.
+const describeDetail = (detail: unknown): string | undefined => {
+  if (typeof detail === "string") {
+    return detail;
+  }
+  if (Array.isArray(detail)) {
+    return detail.map(describeDetail).filter(Boolean).join("; ");
+  }
+  if (detail && typeof detail === "object" && "msg" in detail) {
+    return String((detail as { msg: unknown }).msg);
+  }
+  return undefined;
+};
+
+const isNetworkError = (err: unknown) =>
+  err instanceof Error &&
+  (err.name === "AbortError" ||
+    /fetch failed|timeout|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT/i.test(err.message));
+
+export const toToolError = (err: unknown): ToolError => {
+  if (err instanceof NoDataError) {
+    return { code: "NO_DATA", message: err.message, retryable: false };
+  }
+
+  if (!(err instanceof ParclApiError)) {
+    return isNetworkError(err)
+      ? {
+          code: "NETWORK_ERROR",
+          message: "The Parcl Labs API could not be reached. Try again shortly.",
+          retryable: true,
+        }
+      : {
+          code: "INTERNAL_ERROR",
+          message: "The request could not be completed because of an internal error.",
+          retryable: false,
+        };
+  }
+
+  const { status } = err;
+  const detail = describeDetail((err.data as { detail?: unknown } | null)?.detail);
+
+  switch (status) {
+    case 401:
+      return {
+        code: "UNAUTHORIZED",
+        message: "The Parcl Labs API rejected the configured API key. Check PARCL_API_KEY.",
+        retryable: false,
+        status,
+      };
+    case 403:
+      return {
+        code: "FORBIDDEN",
+        message: `The Parcl Labs API key is not allowed to make this request${
+          detail ? `: ${detail}` : ""
+        }`,
+        retryable: false,
+        status,
+      };
+    case 404:
+      return {
+        code: "NOT_FOUND",
+        message: `Parcl Labs has no data for this market${detail ? `: ${detail}` : ""}`,
+        retryable: false,
+        status,
+      };
+    case 422:
+      return {
+        code: "VALIDATION_ERROR",
+        message: `Parcl Labs rejected the request parameters${detail ? `: ${detail}` : ""}`,
+        retryable: false,
+        status,
+      };
+    case 429:
+      return {
+        code: "RATE_LIMITED",
+        message: "The Parcl Labs API rate limit was hit. Try again shortly.",
+        retryable: true,
+        status,
+      };
+  }
+
+  if (status >= 500) {
+    return {
+      code: "UPSTREAM_ERROR",
+      message: `The Parcl Labs API is currently unavailable (HTTP ${status}). Try again shortly.`,
+      retryable: true,
+      status,
+    };
+  }
+
+  return {
+    code: "INTERNAL_ERROR",
+    message: `The Parcl Labs API returned an unexpected error (HTTP ${status})${
+      detail ? `: ${detail}` : ""
+    }`,
+    retryable: false,
+    status,
+  };
+};
+
+export const errorResponse = (error: ToolError) => ({
+  text: error.message,
+  data: { error },
+  ui: card(error.retryable ? "Temporarily Unavailable" : "Request Failed", [
+    `${error.message} (${error.code})`,
+  ]),
+});
+
+export const requireItems = <T>(items: T[] | undefined, description: string): T[] => {
+  if (!items || items.length === 0) {
+    throw new NoDataError(`No ${description} data is available for this market`);
+  }
+  return items;
+};
+
+// Turns thrown errors into error responses and, when an output schema is given, checks successful
+// response data against it so a tool never returns data that breaks its declared contract.
+export const withErrorHandling =
+  (handler: ToolConfig["handler"], output?: z.ZodTypeAny): ToolConfig["handler"] =>
+  async (...args) => {
+    try {
+      const response = await handler(...args);
+
+      if (!output || "error" in (response.data ?? {})) {
+        return response;
+      }
+
+      const result = output.safeParse(response.data);
+
+      if (!result.success) {
+        console.error("Tool data did not match its output schema", result.error.issues);
+        return errorResponse({
+          code: "INTERNAL_ERROR",
+          message: "The tool produced data that does not match its output schema.",
+          retryable: false,
+        });
+      }
+
+      return { ...response, data: result.data };
+    } catch (err) {
+      console.error(err);
+      return errorResponse(toToolError(err));
+    }
+  };
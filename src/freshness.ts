@@ -0,0 +1,65 @@
+import { ConfigError } from "./errors";
+
+export type Frequency = "daily" | "weekly" | "monthly";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Age in days after which the latest observation of a series is reported as stale. Monthly
+// metrics are published several weeks after the month they describe.
+export const DEFAULT_STALE_AFTER_DAYS: Record<Frequency, number> = {
+  daily: 7,
+  weekly: 21,
+  monthly: 75,
+};
+
+let staleAfterDays = { ...DEFAULT_STALE_AFTER_DAYS };
+
+export const setStaleAfterDays = (days: Partial<Record<Frequency, number>>) => {
+  staleAfterDays = { ...staleAfterDays, ...days };
+};
+
+// Reads PARCL_STALE_AFTER_DAYS_DAILY, _WEEKLY and _MONTHLY, failing fast when they are set to
+// anything but a positive whole number of days.
+export const staleAfterDaysFromEnv = (env: NodeJS.ProcessEnv = process.env) => {
+  const days: Partial<Record<Frequency, number>> = {};
+
+  for (const frequency of Object.keys(DEFAULT_STALE_AFTER_DAYS) as Frequency[]) {
+    const name = `PARCL_STALE_AFTER_DAYS_${frequency.toUpperCase()}`;
+    const value = env[name];
+
+    if (!value) {
+      continue;
+    }
+    if (!(Number.isInteger(Number(value)) && Number(value) > 0)) {
+      throw new ConfigError(`${name} must be a positive number of days`);
+    }
+    days[frequency] = Number(value);
+  }
+
+  return days;
+};
+
+// Describes how old an observation is. Without a frequency (e.g. for a historical date range the
+// caller asked for) the data is never flagged as stale.
+export const freshness = (
+  date: string | null | undefined,
+  frequency: Frequency | null,
+  today = new Date()
+) => {
+  if (!date) {
+    return { as_of: null, age_days: null, stale: false };
+  }
+
+  const ageDays = Math.max(0, Math.floor((today.getTime() - Date.parse(date)) / DAY_MS));
+
+  return {
+    as_of: date,
+    age_days: ageDays,
+    stale: frequency != null && ageDays > staleAfterDays[frequency],
+  };
+};
+
+export type Freshness = ReturnType<typeof freshness>;
+
+export const staleNote = ({ stale, as_of, age_days }: Freshness) =>
+  stale ? ` Note: the latest observation (${as_of}) is ${age_days} days old and may be stale.` : "";
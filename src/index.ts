@@ -1,281 +1,8 @@
-import { z } from "zod";
+import { defineDAINService, ServiceConfig, ToolboxConfig } from "@dainprotocol/service-sdk";
 
-import {
-  defineDAINService,
-  ToolConfig,
-  ServiceConfig,
-  ToolboxConfig,
-} from "@dainprotocol/service-sdk";
-
-import labsV2 from "@api/labs-v2";
-
-const getParclPriceFeed: ToolConfig = {
-  id: "get-parcl-price-feed",
-  name: "Get Parcl Price Feed",
-  description: "Fetches the latest Parcl price feed",
-  input: z
-    .object({
-      location: z.string().describe("The location to get the property price per square foot for"),
-    })
-    .describe("Input parameters for the Parcl price feed request"),
-  output: z.any().describe("Parcl price per square foot for the requested location"),
-  pricing: { pricePerUse: 0.01, currency: "USD" },
-  handler: async ({ location }, agentInfo) => {
-    console.log(`Agent ${agentInfo.agentId} requested price feed for ${location}`);
-    let parclid: number = 5372594;
-
-    switch (location.toLowerCase()) {
-      case "new york city":
-        parclid = 5372594;
-        break;
-      case "los angeles":
-        parclid = 5373892;
-        break;
-      case "chicago":
-        parclid = 5387853;
-        break;
-      case "houston":
-        parclid = 5381035;
-        break;
-      case "philadelphia":
-        parclid = 5378051;
-        break;
-      case "austin":
-        parclid = 5380879;
-        break;
-      case "san francisco":
-        parclid = 5374321;
-        break;
-    }
-
-    let priceData: any;
-
-    labsV2.auth(`${process.env.PARCL_API_KEY}`);
-
-    await labsV2
-      .price_feed_v1_price_feed__parcl_id__price_feed_get({ parcl_id: parclid })
-      .then(({ data }) => {
-        priceData = data;
-      })
-      .catch((err) => console.error(err));
-
-    const response = priceData.items[0].price_feed;
-
-    return {
-      text: `The current price of property per square foot ${location} is ${response}`,
-      data: { price: response },
-      ui: {
-        type: "h2",
-        children: "Property Price Feed Test",
-      },
-    };
-  },
-};
-
-const getParclRentalPriceFeed: ToolConfig = {
-  id: "get-parcl-rental-price-feed",
-  name: "Get Parcl Rental Price Feed",
-  description: "Fetches the latest Parcl Rental price feed",
-  input: z
-    .object({
-      location: z
-        .string()
-        .describe("The location to get the property rental price per square foot for"),
-    })
-    .describe("Input parameters for the Parcl rental price feed request"),
-  output: z.any().describe("Parcl rental price per square foot for the requested location"),
-  pricing: { pricePerUse: 0.01, currency: "USD" },
-  handler: async ({ location }, agentInfo) => {
-    console.log(`Agent ${agentInfo.agentId} requested rental price feed for ${location}`);
-    let parclid: number = 5372594;
-
-    switch (location.toLowerCase()) {
-      case "new york city":
-        parclid = 5372594;
-        break;
-      case "los angeles":
-        parclid = 5373892;
-        break;
-      case "chicago":
-        parclid = 5387853;
-        break;
-      case "houston":
-        parclid = 5381035;
-        break;
-      case "philadelphia":
-        parclid = 5378051;
-        break;
-      case "austin":
-        parclid = 5380879;
-        break;
-      case "san francisco":
-        parclid = 5374321;
-        break;
-    }
-
-    let priceData: any;
-
-    labsV2.auth(`${process.env.PARCL_API_KEY}`);
-
-    await labsV2
-      .rental_price_feed_v1_price_feed__parcl_id__rental_price_feed_get({ parcl_id: parclid })
-      .then(({ data }) => {
-        priceData = data;
-      })
-      .catch((err) => console.error(err));
-
-    const response = priceData.items[0].rental_price_feed;
-
-    return {
-      text: `The current rental price of property per square foot ${location} is ${response}`,
-      data: { price: response },
-      ui: {
-        type: "h2",
-        children: "Property Rental Price Feed Test",
-      },
-    };
-  },
-};
-
-const getParclVolatilityFeed: ToolConfig = {
-  id: "get-parcl-volatility-feed",
-  name: "Get Parcl Volatility Feed",
-  description: "Fetches the latest Parcl 10-day average volatility rate",
-  input: z
-    .object({
-      location: z
-        .string()
-        .describe("The location to get the 10-day average property volatility rate for"),
-    })
-    .describe("Input parameters for the Parcl volatility rate feed request"),
-  output: z
-    .any()
-    .describe("Parcl average volatility rate over the last 10 days for the requested location"),
-  pricing: { pricePerUse: 0.01, currency: "USD" },
-  handler: async ({ location }, agentInfo) => {
-    console.log(`Agent ${agentInfo.agentId} requested volatility rate for ${location}`);
-    let parclid: number = 5372594;
-
-    switch (location.toLowerCase()) {
-      case "new york city":
-        parclid = 5372594;
-        break;
-      case "los angeles":
-        parclid = 5373892;
-        break;
-      case "chicago":
-        parclid = 5387853;
-        break;
-      case "houston":
-        parclid = 5381035;
-        break;
-      case "philadelphia":
-        parclid = 5378051;
-        break;
-      case "austin":
-        parclid = 5380879;
-        break;
-      case "san francisco":
-        parclid = 5374321;
-        break;
-    }
-
-    let priceData: any;
-
-    labsV2.auth(`${process.env.PARCL_API_KEY}`);
-
-    await labsV2
-      .volatility_v1_price_feed__parcl_id__volatility_get({ parcl_id: parclid })
-      .then(({ data }) => {
-        priceData = data;
-      })
-      .catch((err) => console.error(err));
-
-    const prices: any[] = [];
-
-    for (let i = 0; i < 10; i++) {
-      const response = priceData.items[i].pct_volatility;
-
-      prices.push(response);
-    }
-
-    const average = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-
-    return {
-      text: `The average volatility rate over the last 10 days for ${location} is ${average}`,
-      data: { volatility_average: average },
-      ui: {
-        type: "h2",
-        children: "Property Volatility Rate Feed Test",
-      },
-    };
-  },
-};
-
-const getParclSaleInventoryFeed: ToolConfig = {
-  id: "get-parcl-sale-inventory-feed",
-  name: "Get Parcl Sale Inventory Feed",
-  description: "Fetches the latest Parcl sale inventory",
-  input: z
-    .object({
-      location: z.string().describe("The location to get the sale inventory for"),
-    })
-    .describe("Input parameters for the Parcl sale inventory request"),
-  output: z.any().describe("Parcl sale inventory for the requested location"),
-  pricing: { pricePerUse: 0.01, currency: "USD" },
-  handler: async ({ location }, agentInfo) => {
-    console.log(`Agent ${agentInfo.agentId} requested sale inventory for ${location}`);
-    let parclid: number = 5372594;
-
-    switch (location.toLowerCase()) {
-      case "new york city":
-        parclid = 5372594;
-        break;
-      case "los angeles":
-        parclid = 5373892;
-        break;
-      case "chicago":
-        parclid = 5387853;
-        break;
-      case "houston":
-        parclid = 5381035;
-        break;
-      case "philadelphia":
-        parclid = 5378051;
-        break;
-      case "austin":
-        parclid = 5380879;
-        break;
-      case "san francisco":
-        parclid = 5374321;
-        break;
-    }
-
-    let priceData: any;
-
-    labsV2.auth(`${process.env.PARCL_API_KEY}`);
-
-    await labsV2
-      .for_sale_inventory_v1_for_sale_market_metrics__parcl_id__for_sale_inventory_get({
-        parcl_id: parclid,
-      })
-      .then(({ data }) => {
-        priceData = data;
-      })
-      .catch((err) => console.error(err));
-
-    const response = priceData.items[0].for_sale_inventory;
-
-    return {
-      text: `The current sale inventory for ${location} is ${response}`,
-      data: { sale_inventory: response },
-      ui: {
-        type: "h2",
-        children: "Property Sale Inventory Feed Test",
-      },
-    };
-  },
-};
+import { ParclClient, setParclClient } from "./client";
+import { setStaleAfterDays, staleAfterDaysFromEnv } from "./freshness";
+import { tools } from "./tools";
 
 const realestateServiceConfig: ServiceConfig = {
   id: "real-estate-data-service",
@@ -287,6 +14,21 @@ const realestateServiceConfig: ServiceConfig = {
       "property-rental-price-per-square-foot",
       "property-volatility-rate",
       "property-sale-inventory",
+      "market-search",
+      "market-comparison",
+      "gross-rental-yield",
+      "investor-activity",
+      "portfolio-operator-activity",
+      "property-search",
+      "address-lookup",
+      "property-event-history",
+      "market-snapshot",
+      "market-activity",
+      "housing-stock",
+      "all-cash-share",
+      "inventory-analysis",
+      "rental-supply",
+      "new-construction",
     ],
     languages: ["en"],
   },
@@ -297,6 +39,20 @@ const realestateServiceConfig: ServiceConfig = {
     "get-parcl-rental-price-feed",
     "get-parcl-volatility-feed",
     "get-parcl-sale-inventory-feed",
+    "search-markets",
+    "compare-markets",
+    "get-parcl-gross-yield",
+    "get-parcl-investor-activity",
+    "get-parcl-portfolio-activity",
+    "search-properties",
+    "lookup-addresses",
+    "get-property-history",
+    "get-market-snapshot",
+    "get-market-activity",
+    "get-housing-stock",
+    "get-sale-inventory-analysis",
+    "get-rental-supply",
+    "get-new-construction",
   ],
 };
 
@@ -309,6 +65,20 @@ const realestateToolboxConfig: ToolboxConfig = {
     "get-parcl-rental-price-feed",
     "get-parcl-volatility-feed",
     "get-parcl-sale-inventory-feed",
+    "search-markets",
+    "compare-markets",
+    "get-parcl-gross-yield",
+    "get-parcl-investor-activity",
+    "get-parcl-portfolio-activity",
+    "search-properties",
+    "lookup-addresses",
+    "get-property-history",
+    "get-market-snapshot",
+    "get-market-activity",
+    "get-housing-stock",
+    "get-sale-inventory-analysis",
+    "get-rental-supply",
+    "get-new-construction",
   ],
   metadata: {
     complexity: "Medium",
@@ -317,6 +87,9 @@ const realestateToolboxConfig: ToolboxConfig = {
   recommendedPrompt: "Use these tools for various real estate data-related tasks and analyses",
 };
 
+setParclClient(ParclClient.fromEnv());
+setStaleAfterDays(staleAfterDaysFromEnv());
+
 const dainService = defineDAINService({
   metadata: {
     title: "Comprehensive Real Estate Data DAIN Service",
@@ -330,12 +103,7 @@ const dainService = defineDAINService({
     apiKey: process.env.DAIN_API_KEY,
   },
   services: [realestateServiceConfig],
-  tools: [
-    getParclPriceFeed,
-    getParclRentalPriceFeed,
-    getParclVolatilityFeed,
-    getParclSaleInventoryFeed,
-  ],
+  tools,
   toolboxes: [realestateToolboxConfig],
   contexts: [],
 });
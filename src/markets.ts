@@ -0,0 +1,317 @@
+import { z } from "zod";
+
+import type {
+  SearchMarketsV1SearchMarketsGetMetadataParam,
+  SearchMarketsV1SearchMarketsGetResponse200,
+} from "@api/labs-v2";
+
+import { cached } from "./cache";
+import { getParclClient } from "./client";
+import { ParclApiError, ToolError } from "./errors";
+import { card } from "./ui";
+
+export type Market = SearchMarketsV1SearchMarketsGetResponse200["items"][number];
+
+// prettier-ignore
+export const STATE_ABBREVIATIONS = [
+  "AK", "AL", "AR", "AZ", "CA", "CO", "CT", "DC", "DE", "FL", "GA", "HI", "IA", "ID", "IL",
+  "IN", "KS", "KY", "LA", "MA", "MD", "ME", "MI", "MN", "MO", "MS", "MT", "NC", "ND", "NE",
+  "NH", "NJ", "NM", "NV", "NY", "OH", "OK", "OR", "PA", "PR", "RI", "SC", "SD", "TN", "TX",
+  "UT", "VA", "VI", "VT", "WA", "WI", "WV", "WY",
+] as const;
+
+export const LOCATION_TYPES = ["COUNTY", "CITY", "ZIP5", "CDP", "VILLAGE", "TOWN", "CBSA"] as const;
+
+export const REGIONS = [
+  "EAST_NORTH_CENTRAL",
+  "EAST_SOUTH_CENTRAL",
+  "MIDDLE_ATLANTIC",
+  "MOUNTAIN",
+  "NEW_ENGLAND",
+  "PACIFIC",
+  "SOUTH_ATLANTIC",
+  "WEST_NORTH_CENTRAL",
+  "WEST_SOUTH_CENTRAL",
+] as const;
+
+export const MARKET_SORT_FIELDS = [
+  "TOTAL_POPULATION",
+  "MEDIAN_INCOME",
+  "CASE_SHILLER_20_MARKET",
+  "CASE_SHILLER_10_MARKET",
+  "PRICEFEED_MARKET",
+  "PARCL_EXCHANGE_MARKET",
+] as const;
+
+export const PROPERTY_TYPES = ["SINGLE_FAMILY", "CONDO", "TOWNHOUSE", "ALL_PROPERTIES"] as const;
+
+export const PORTFOLIO_SIZES = [
+  "PORTFOLIO_2_TO_9",
+  "PORTFOLIO_10_TO_99",
+  "PORTFOLIO_100_TO_999",
+  "PORTFOLIO_1000_PLUS",
+  "ALL_PORTFOLIOS",
+] as const;
+
+export type StateAbbreviation = (typeof STATE_ABBREVIATIONS)[number];
+export type LocationType = (typeof LOCATION_TYPES)[number];
+export type PortfolioSize = (typeof PORTFOLIO_SIZES)[number];
+
+export const marketFilterShape = {
+  state_abbreviation: z
+    .enum(STATE_ABBREVIATIONS)
+    .optional()
+    .describe("Two-letter state abbreviation used to disambiguate the location, e.g. TX"),
+  location_type: z
+    .enum(LOCATION_TYPES)
+    .optional()
+    .describe("The kind of market to match, e.g. CITY, COUNTY, ZIP5 or CBSA"),
+};
+
+export interface MarketFilters {
+  state_abbreviation?: StateAbbreviation;
+  location_type?: LocationType;
+}
+
+export type MarketResolution =
+  | { status: "resolved"; query: string; market: Market }
+  | { status: "ambiguous"; query: string; candidates: Market[] }
+  | { status: "not_found"; query: string; suggestions: Market[] };
+
+const SEARCH_LIMIT = 12;
+const MAX_SUGGESTIONS = 5;
+
+// An exact name match wins outright when it is at least this many times more populous than
+// the runner-up, so "Austin" resolves to Austin, TX rather than being reported as ambiguous.
+const DOMINANT_POPULATION_RATIO = 5;
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Lower-case state names, for locations such as "Austin Texas".
+const STATE_NAMES: Record<string, StateAbbreviation> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  "district of columbia": "DC",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "puerto rico": "PR",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  "virgin islands": "VI",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+};
+
+const MAX_STATE_NAME_WORDS = 3;
+
+const toStateAbbreviation = (text: string) => {
+  const name = normalizeName(text);
+  const abbreviation = name.toUpperCase() as StateAbbreviation;
+
+  return STATE_ABBREVIATIONS.includes(abbreviation) ? abbreviation : STATE_NAMES[name];
+};
+
+// Readings of a location to search for, most specific first. A state after a comma ("Austin, TX"
+// or "Austin, Texas") is always taken as the state. Without a comma ("Austin TX", "Austin
+// Texas") the whole location is tried as well, since some names end in a state name
+// ("Port Washington").
+const parseLocation = (location: string, filters: MarketFilters) => {
+  const trimmed = location.trim();
+  const withState = (query: string, state: StateAbbreviation) => ({
+    query: query.trim(),
+    state_abbreviation: filters.state_abbreviation ?? state,
+    location_type: filters.location_type,
+  });
+  const asWritten = {
+    query: trimmed,
+    state_abbreviation: filters.state_abbreviation,
+    location_type: filters.location_type ?? (/^\d{5}$/.test(trimmed) ? "ZIP5" : undefined),
+  };
+
+  const comma = trimmed.match(/^(.*?),\s*([^,]+)$/);
+  const commaState = comma && toStateAbbreviation(comma[2]);
+
+  if (comma && comma[1].trim() && commaState) {
+    return [withState(comma[1], commaState)];
+  }
+
+  const words = trimmed.split(/\s+/);
+
+  // Longer names first, so "Charleston West Virginia" is not read as "Charleston West", VA.
+  for (let count = MAX_STATE_NAME_WORDS; count >= 1; count--) {
+    const state = words.length > count && toStateAbbreviation(words.slice(-count).join(" "));
+
+    if (state) {
+      return [withState(words.slice(0, -count).join(" "), state), asWritten];
+    }
+  }
+
+  return [asWritten];
+};
+
+const pickBestMatch = (query: string, markets: Market[], filters: MarketFilters) => {
+  let matches = markets.filter((market) => normalizeName(market.name) === normalizeName(query));
+
+  if (matches.length > 1 && !filters.location_type) {
+    const cities = matches.filter((market) => market.location_type === "CITY");
+    if (cities.length > 0) {
+      matches = cities;
+    }
+  }
+
+  if (matches.length <= 1) {
+    return { match: matches[0], candidates: matches };
+  }
+
+  const [first, second] = [...matches].sort(
+    (a, b) => (b.total_population ?? 0) - (a.total_population ?? 0)
+  );
+
+  if ((first.total_population ?? 0) >= (second.total_population ?? 0) * DOMINANT_POPULATION_RATIO) {
+    return { match: first, candidates: matches };
+  }
+
+  return { match: undefined, candidates: matches };
+};
+
+export const describeMarket = (market: Market) =>
+  [market.name, market.state_abbreviation, `(${market.location_type}, parcl_id ${market.parcl_id})`]
+    .filter(Boolean)
+    .join(" ");
+
+export const searchMarkets = async (params: SearchMarketsV1SearchMarketsGetMetadataParam) => {
+  try {
+    return await cached("search_markets", params, () => getParclClient().searchMarkets(params));
+  } catch (err) {
+    if (err instanceof ParclApiError && err.status === 404) {
+      return {
+        data: { items: [], total: 0, limit: params.limit ?? null, offset: params.offset ?? null },
+        cache: null,
+      };
+    }
+    throw err;
+  }
+};
+
+export const resolveMarket = async (
+  location: string,
+  filters: MarketFilters = {}
+): Promise<MarketResolution> => {
+  let suggestions: Market[] = [];
+
+  for (const { query, ...parsedFilters } of parseLocation(location, filters)) {
+    const {
+      data: { items },
+    } = await searchMarkets({
+      query,
+      state_abbreviation: parsedFilters.state_abbreviation,
+      location_type: parsedFilters.location_type,
+      sort_by: "TOTAL_POPULATION",
+      sort_order: "DESC",
+      limit: SEARCH_LIMIT,
+    });
+
+    const { match, candidates } = pickBestMatch(query, items, parsedFilters);
+
+    if (match) {
+      return { status: "resolved", query: location, market: match };
+    }
+
+    if (candidates.length > 1) {
+      return {
+        status: "ambiguous",
+        query: location,
+        candidates: candidates.slice(0, MAX_SUGGESTIONS),
+      };
+    }
+
+    if (suggestions.length === 0) {
+      suggestions = items.slice(0, MAX_SUGGESTIONS);
+    }
+  }
+
+  return { status: "not_found", query: location, suggestions };
+};
+
+export const unresolvedMarketResponse = (
+  resolution: Exclude<MarketResolution, { status: "resolved" }>
+) => {
+  const options =
+    resolution.status === "ambiguous" ? resolution.candidates : resolution.suggestions;
+  const hint =
+    options.length > 0
+      ? ` Did you mean: ${options.map(describeMarket).join("; ")}?`
+      : " Try a different spelling or add a state abbreviation.";
+  const text =
+    resolution.status === "ambiguous"
+      ? `"${resolution.query}" matches more than one market.${hint}`
+      : `No Parcl market was found for "${resolution.query}".${hint}`;
+
+  return {
+    text,
+    data: {
+      error: {
+        code: resolution.status === "ambiguous" ? "MARKET_AMBIGUOUS" : "MARKET_NOT_FOUND",
+        message: text,
+        retryable: false,
+      } as ToolError,
+      status: resolution.status,
+      query: resolution.query,
+      candidates: options.map((market) => ({
+        parcl_id: market.parcl_id,
+        name: market.name,
+        state_abbreviation: market.state_abbreviation,
+        location_type: market.location_type,
+        total_population: market.total_population,
+      })),
+    },
+    ui: card(resolution.status === "ambiguous" ? "Ambiguous Market" : "Market Not Found", [text]),
+  };
+};
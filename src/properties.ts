@@ -0,0 +1,190 @@
+import type {
+  PropertyEventsV1PropertyEventHistoryPostResponse200,
+  SearchAddressV1PropertySearchAddressPostBodyParam,
+  SearchV1PropertySearchGetResponse200,
+} from "@api/labs-v2";
+
+import { STATE_ABBREVIATIONS, StateAbbreviation } from "./markets";
+
+export type Property = SearchV1PropertySearchGetResponse200;
+export type PropertyEvent = PropertyEventsV1PropertyEventHistoryPostResponse200;
+export type AddressQuery = SearchAddressV1PropertySearchAddressPostBodyParam[number];
+
+export const SEARCH_PROPERTY_TYPES = ["SINGLE_FAMILY", "CONDO", "TOWNHOUSE", "OTHER"] as const;
+
+export const EVENT_TYPES = ["SALE", "LISTING", "RENTAL", "ALL"] as const;
+
+export const ENTITY_OWNER_NAMES = [
+  "AMH",
+  "TRICON",
+  "INVITATION_HOMES",
+  "HOME_PARTNERS_OF_AMERICA",
+  "PROGRESS_RESIDENTIAL",
+  "FIRSTKEY_HOMES",
+  "AMHERST",
+] as const;
+
+// The generated client types the property endpoints as returning a single record, but the API
+// responds with a list.
+export const asList = <T>(data: T | T[] | null | undefined): T[] =>
+  Array.isArray(data) ? data : data ? [data] : [];
+
+export const flag = (value: number | null | undefined) => (value == null ? null : value === 1);
+
+export const summarizeProperty = (property: Property) => ({
+  parcl_property_id: property.parcl_property_id,
+  address: property.address,
+  unit: property.unit ?? null,
+  city: property.city ?? null,
+  state_abbreviation: property.state_abbreviation,
+  zip_code: property.zip_code ?? null,
+  property_type: property.property_type,
+  bedrooms: property.bedrooms ?? null,
+  bathrooms: property.bathrooms ?? null,
+  square_footage: property.square_footage ?? null,
+  year_built: property.year_built ?? null,
+  latitude: property.latitude ?? null,
+  longitude: property.longitude ?? null,
+  event_count: property.event_count,
+  owner_occupied: flag(property.current_owner_occupied_flag),
+  investor_owned: flag(property.current_investor_owned_flag),
+  new_construction: flag(property.current_new_construction_flag),
+  entity_owner_name: property.current_entity_owner_name ?? null,
+});
+
+export const formatAddress = (property: {
+  address: string;
+  unit?: string | null;
+  city?: string | null;
+  state_abbreviation?: string | null;
+  zip_code?: string | null;
+}) =>
+  [
+    [property.address, property.unit].filter(Boolean).join(" "),
+    property.city,
+    [property.state_abbreviation, property.zip_code].filter(Boolean).join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+export type ParsedAddress =
+  | { status: "parsed"; query: AddressQuery; inferred: string[] }
+  | { status: "invalid"; reason: string };
+
+const UNIT_PATTERN = /\s+(?:apt|apartment|unit|suite|ste|#)\.?\s*#?\s*([a-z0-9-]+)$/i;
+
+// Splits a free-form US address such as "123 Main St Apt 4, Austin, TX 78701" into the fields
+// expected by the address search endpoint. `inferred` lists the parts that had to be guessed.
+export const parseAddress = (input: string): ParsedAddress => {
+  let rest = input.replace(/\s+/g, " ").trim();
+  const inferred: string[] = [];
+
+  const zip = rest.match(/[ ,]+(\d{5})(?:-\d{4})?$/);
+  if (!zip) {
+    return { status: "invalid", reason: "missing a five-digit ZIP code" };
+  }
+  rest = rest.slice(0, zip.index);
+
+  const state = rest.match(/[ ,]+([a-z]{2})$/i);
+  const stateAbbreviation = state?.[1].toUpperCase() as StateAbbreviation | undefined;
+  if (!state || !stateAbbreviation || !STATE_ABBREVIATIONS.includes(stateAbbreviation)) {
+    return { status: "invalid", reason: "missing a two-letter state abbreviation" };
+  }
+  rest = rest.slice(0, state.index).replace(/,\s*$/, "");
+
+  const parts = rest.split(",").map((part) => part.trim());
+  let street = parts[0];
+  let city = parts.slice(1).join(" ").trim();
+
+  if (!city) {
+    // Without a comma the city is taken to be the trailing word of the street line.
+    const words = street.split(" ");
+    if (words.length < 3) {
+      return { status: "invalid", reason: "missing a city" };
+    }
+    city = words.pop() as string;
+    street = words.join(" ");
+    inferred.push("city");
+  }
+
+  const unit = street.match(UNIT_PATTERN);
+  if (unit) {
+    street = street.slice(0, unit.index);
+  }
+
+  return {
+    status: "parsed",
+    query: {
+      address: street.toUpperCase(),
+      unit: unit ? unit[1].toUpperCase() : undefined,
+      city: city.toUpperCase(),
+      state_abbreviation: stateAbbreviation,
+      zip_code: zip[1],
+    },
+    inferred,
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ACTIVE_LISTING_EVENTS = ["LISTED_SALE", "RELISTED", "PRICE_CHANGE", "PENDING_SALE"];
+const ACTIVE_RENTAL_EVENTS = ["LISTED_FOR_RENT", "PRICE_CHANGE"];
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const latestOfType = (events: PropertyEvent[], eventType: string) =>
+  events.filter((event) => event.event_type === eventType).pop();
+
+// Derives sale, listing and rental facts from a property's full event history, which must be
+// sorted oldest first.
+export const summarizePropertyHistory = (events: PropertyEvent[], today = new Date()) => {
+  // Transfers are recorded as SALE events too, but only arm's-length sales carry a market price.
+  const sales = events.filter(
+    (event) => event.event_name === "SOLD" && event.price != null && event.price > 0
+  );
+  const lastSale = sales[sales.length - 1];
+  const lastListing = latestOfType(events, "LISTING");
+  const lastRental = latestOfType(events, "RENTAL");
+  const afterLastSale = (event?: PropertyEvent) =>
+    !!event && (!lastSale || event.event_date >= lastSale.event_date);
+
+  const appreciation = sales.slice(1).map((sale, index) => {
+    const previous = sales[index];
+    const heldDays = daysBetween(previous.event_date, sale.event_date);
+    const ratio = (sale.price as number) / (previous.price as number);
+
+    return {
+      from_date: previous.event_date,
+      to_date: sale.event_date,
+      from_price: previous.price,
+      to_price: sale.price,
+      held_days: heldDays,
+      change_pct: (ratio - 1) * 100,
+      annualized_pct: heldDays > 0 ? (Math.pow(ratio, 365.25 / heldDays) - 1) * 100 : null,
+    };
+  });
+
+  const listingStatus =
+    afterLastSale(lastListing) && ACTIVE_LISTING_EVENTS.includes(lastListing.event_name)
+      ? lastListing.event_name === "PENDING_SALE"
+        ? "pending_sale"
+        : "listed_for_sale"
+      : "not_listed";
+  const rentalStatus = !afterLastSale(lastRental)
+    ? "none"
+    : ACTIVE_RENTAL_EVENTS.includes(lastRental.event_name)
+    ? "listed_for_rent"
+    : "rented_or_withdrawn";
+
+  return {
+    event_count: events.length,
+    last_sale: lastSale ? { date: lastSale.event_date, price: lastSale.price } : null,
+    hold_period_days: lastSale ? daysBetween(lastSale.event_date, today.toISOString()) : null,
+    appreciation,
+    listing_status: listingStatus,
+    last_listing_price: listingStatus === "not_listed" ? null : lastListing?.price ?? null,
+    rental_status: rentalStatus,
+    last_rent: rentalStatus === "none" ? null : lastRental?.price ?? null,
+  };
+};
@@ -0,0 +1,599 @@
+import { z } from "zod";
+
+import { CacheInfo, CacheSummary } from "./cache";
+import { TOOL_ERROR_CODES, ToolError } from "./errors";
+import { Market } from "./markets";
+import { summarizeProperty, summarizePropertyHistory } from "./properties";
+import { CHANGE_PERIODS, PeriodChange, SeriesPoint, SeriesSummary } from "./series";
+
+type FieldSchema<V> = [V] extends [string | number | boolean]
+  ? z.ZodType<V, any, any>
+  : z.ZodTypeAny;
+
+// Builds an object schema that must declare exactly the keys of `T`, with matching primitive
+// types, so drift in the generated Parcl types or the helpers that build tool data surfaces as a
+// compile error. (`z.ZodType<T>` annotations cannot do this while strictNullChecks is off, since
+// zod then infers every key as optional.)
+const objectOf =
+  <T>() =>
+  <S extends { [K in keyof T]-?: FieldSchema<T[K]> }>(
+    shape: S & Record<Exclude<keyof S, keyof T>, never>
+  ) =>
+    z.object(shape);
+
+const cacheInfoSchema = objectOf<CacheInfo>()({
+  hit: z.boolean(),
+  key: z.string(),
+  stored_at: z.string(),
+  expires_at: z.string(),
+  age_seconds: z.number(),
+});
+
+const cacheSummarySchema = objectOf<CacheSummary>()({
+  hit: z.boolean(),
+  requests: z.number().int(),
+  stored_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  age_seconds: z.number(),
+});
+
+export const cacheSchema = z
+  .union([cacheInfoSchema, cacheSummarySchema])
+  .nullable()
+  .describe("Whether the data was served from the response cache and how old it is");
+
+export const toolErrorSchema = objectOf<ToolError>()({
+  code: z.enum(TOOL_ERROR_CODES),
+  message: z.string(),
+  retryable: z.boolean(),
+  status: z.number().int().optional(),
+});
+
+export const seriesPointSchema = objectOf<SeriesPoint>()({
+  date: z.string(),
+  value: z.number(),
+});
+
+export const seriesSummarySchema = objectOf<SeriesSummary>()({
+  observations: z.number().int(),
+  start: seriesPointSchema,
+  end: seriesPointSchema,
+  min: seriesPointSchema,
+  max: seriesPointSchema,
+  change: z.number(),
+  change_pct: z.number().nullable(),
+  cagr_pct: z.number().nullable(),
+});
+
+type MarketSummary = Pick<
+  Market,
+  | "parcl_id"
+  | "name"
+  | "state_abbreviation"
+  | "region"
+  | "geoid"
+  | "location_type"
+  | "total_population"
+  | "median_income"
+> &
+  Record<
+    | "pricefeed_market"
+    | "parcl_exchange_market"
+    | "case_shiller_10_market"
+    | "case_shiller_20_market",
+    boolean
+  >;
+
+export const seriesTrendSchema = z.object({
+  direction: z.enum(["rising", "falling", "stable"]),
+  start: seriesPointSchema,
+  end: seriesPointSchema,
+  change: z.number(),
+  change_pct: z.number().nullable(),
+});
+
+export const marketSummarySchema = objectOf<MarketSummary>()({
+  parcl_id: z.number().int(),
+  name: z.string(),
+  state_abbreviation: z.string().nullable().optional(),
+  region: z.string().nullable().optional(),
+  geoid: z.string().nullable(),
+  location_type: z.string(),
+  total_population: z.number().int().nullable(),
+  median_income: z.number().int().nullable(),
+  pricefeed_market: z.boolean(),
+  parcl_exchange_market: z.boolean(),
+  case_shiller_10_market: z.boolean(),
+  case_shiller_20_market: z.boolean(),
+});
+
+export const sourcesShape = {
+  sources: z.array(z.string()).describe("Parcl Labs endpoints the data was fetched from"),
+};
+
+// Identifies the market a tool reported on.
+export const marketShape = {
+  parcl_id: z.number().int().describe("Parcl id of the resolved market"),
+  market_name: z.string().describe("Name of the resolved market"),
+  state_abbreviation: z.string().nullable().describe("State of the resolved market"),
+  location_type: z.string().describe("Kind of market, e.g. CITY, COUNTY, ZIP5 or CBSA"),
+  ...sourcesShape,
+};
+
+export const freshnessShape = {
+  as_of: z.string().nullable().describe("Date of the latest observation (YYYY-MM-DD)"),
+  age_days: z.number().int().nullable().describe("Days since the latest observation"),
+  stale: z.boolean().describe("Whether the latest observation is older than expected"),
+};
+
+// The headline value of a single-metric tool.
+export const metricShape = {
+  value: z.number().describe("Latest value of the metric"),
+  unit: z.string().describe("Unit of the value"),
+  date: z.string().describe("As-of date of the value (YYYY-MM-DD)"),
+};
+
+// Data returned instead of the tool's regular output when it fails or the location cannot be
+// matched to a single market.
+export const failureSchema = z
+  .object({ error: toolErrorSchema })
+  .passthrough()
+  .describe("Error details when the request could not be completed");
+
+export const toolOutput = <T extends z.ZodTypeAny>(data: T, description: string) =>
+  z.union([data, failureSchema]).describe(description);
+
+const periodChangeSchema = objectOf<PeriodChange>()({
+  period: z.enum(CHANGE_PERIODS.map(({ period }) => period) as [PeriodChange["period"]]),
+  baseline_date: z.string().nullable(),
+  baseline_value: z.number().nullable(),
+  change: z.number().nullable(),
+  change_pct: z.number().nullable(),
+});
+
+export const changesSchema = z
+  .array(periodChangeSchema)
+  .optional()
+  .describe("Change of the latest value over each period, with the baseline it was measured from");
+
+// Shared by the sale and rental price feeds, which return either the latest observation or a
+// daily series with its summary.
+export const priceFeedOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  value: metricShape.value.nullable(),
+  unit: metricShape.unit,
+  date: metricShape.date.nullable(),
+  changes: changesSchema,
+  series: z
+    .array(seriesPointSchema)
+    .optional()
+    .describe("Daily observations, when a date range was requested"),
+  summary: seriesSummarySchema
+    .nullable()
+    .optional()
+    .describe("Change and range over the requested date range"),
+  cache: cacheSchema,
+});
+
+export const volatilityOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  ...metricShape,
+  window: z.number().int(),
+  observations: z.number().int(),
+  volatility_average: z.number(),
+  volatility_median: z.number(),
+  volatility_min: z.number(),
+  volatility_max: z.number(),
+  volatility_std_dev: z.number(),
+  latest: seriesPointSchema,
+  trend: z.object({
+    direction: z.enum(["rising", "falling", "stable", "unknown"]),
+    earlier_average: z.number().nullable(),
+    recent_average: z.number().nullable(),
+  }),
+  series: z.array(seriesPointSchema),
+  cache: cacheSchema,
+});
+
+export const saleInventoryOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  ...metricShape,
+  changes: changesSchema,
+  cache: cacheSchema,
+});
+
+export const saleInventoryAnalysisOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  property_type: z.string(),
+  inventory: z.object({
+    latest: seriesPointSchema,
+    trend: seriesTrendSchema.nullable(),
+    history: z.array(seriesPointSchema),
+  }),
+  price_cuts: z
+    .object({
+      date: z.string(),
+      count_price_change: z.number(),
+      count_price_drop: z.number(),
+      pct_inventory_price_change: z.number().nullable(),
+      pct_inventory_price_drop: z
+        .number()
+        .nullable()
+        .describe("Share of the for-sale inventory with a price cut"),
+      median_price_change: z.number().nullable(),
+      median_pct_price_change: z.number().nullable(),
+      median_days_bt_change: z.number().nullable(),
+    })
+    .nullable(),
+  new_listings: z
+    .object({
+      date: z.string(),
+      rolling_7_day: z.number().nullable(),
+      rolling_30_day: z.number().nullable(),
+      rolling_60_day: z.number().nullable(),
+      rolling_90_day: z.number().nullable(),
+      weekly_pace_7_day: z.number().nullable(),
+      weekly_pace_90_day: z.number().nullable(),
+      velocity: z.enum(["accelerating", "slowing", "steady", "unknown"]),
+    })
+    .nullable(),
+  softening_signals: z.array(z.string()),
+  cache: cacheSchema,
+});
+
+export const searchMarketsOutput = z.object({
+  ...sourcesShape,
+  markets: z.array(marketSummarySchema),
+  total: z.number().int().nullable(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  next_offset: z.number().int().nullable(),
+  cache: cacheSchema,
+});
+
+export const compareMarketsOutput = z.object({
+  ...sourcesShape,
+  rank_by: z.enum(["price_to_rent_ratio", "price", "rental_price"]).optional(),
+  markets: z.array(
+    z.object({
+      rank: z.number().int(),
+      parcl_id: z.number().int(),
+      name: z.string(),
+      state_abbreviation: z.string().nullable().optional(),
+      location_type: z.string(),
+      price: z.number().nullable(),
+      price_date: z.string().nullable(),
+      rental_price: z.number().nullable(),
+      rental_price_date: z.string().nullable(),
+      price_to_rent_ratio: z.number().nullable(),
+      ...freshnessShape,
+    })
+  ),
+  unresolved: z.array(failureSchema),
+  cache: cacheSchema.optional(),
+});
+
+export const grossYieldOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  ...metricShape,
+  property_type: z.string(),
+  previous_year: seriesPointSchema.nullable(),
+  change_pct_points: z.number().nullable(),
+  history: z.array(seriesPointSchema),
+  cache: cacheSchema,
+});
+
+const allCashPointSchema = z.object({
+  date: z.string(),
+  pct_all_cash: z.number(),
+  count: z.number(),
+});
+
+export const housingStockOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  housing_stock: z.object({
+    date: z.string(),
+    all_properties: z.number(),
+    by_property_type: z.array(
+      z.object({
+        property_type: z.string(),
+        units: z.number().nullable(),
+        pct_of_stock: z.number().nullable(),
+      })
+    ),
+  }),
+  all_cash: z.object({
+    property_type: z.string(),
+    latest: allCashPointSchema,
+    change_pct_points: z
+      .number()
+      .nullable()
+      .describe("Change in the all-cash share from the first to the last month"),
+    average_pct: z.number(),
+    history: z.array(allCashPointSchema),
+  }),
+  cache: cacheSchema,
+});
+
+const rollingCountsShape = {
+  date: z.string(),
+  rolling_7_day: z.number().nullable(),
+  rolling_30_day: z.number().nullable(),
+  rolling_60_day: z.number().nullable(),
+  rolling_90_day: z.number().nullable(),
+};
+
+const rentalConcentrationSchema = z.object({
+  date: z.string(),
+  rental_units: z.number(),
+  total_units: z.number(),
+  pct_rental_concentration: z.number(),
+});
+
+export const rentalSupplyOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  property_type: z.string(),
+  new_rental_listings: z.object({
+    ...freshnessShape,
+    latest: z.object(rollingCountsShape),
+    year_ago: z.object(rollingCountsShape).nullable(),
+    yoy_change_pct: z
+      .object({
+        rolling_7_day: z.number().nullable(),
+        rolling_30_day: z.number().nullable(),
+        rolling_60_day: z.number().nullable(),
+        rolling_90_day: z.number().nullable(),
+      })
+      .nullable(),
+    history: z.array(z.object(rollingCountsShape)),
+  }),
+  rental_concentration: z.object({
+    ...freshnessShape,
+    latest: rentalConcentrationSchema,
+    year_ago: rentalConcentrationSchema.nullable(),
+    change_pct_points: z.number().nullable(),
+    history: z.array(rentalConcentrationSchema),
+  }),
+  cache: cacheSchema,
+});
+
+export const investorActivityOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  period: z.object({ start_date: z.string(), end_date: z.string() }),
+  acquisitions: z.number(),
+  dispositions: z.number(),
+  net_buying: z.number(),
+  purchase_to_sale_ratio: z.object({
+    latest: seriesPointSchema.nullable(),
+    average: z.number().nullable(),
+    series: z.array(seriesPointSchema),
+  }),
+  ownership: z
+    .object({
+      date: z.string(),
+      count: z.number(),
+      pct_ownership: z.number(),
+      change_pct_points: z.number(),
+    })
+    .nullable(),
+  months: z.array(
+    z.object({
+      date: z.string(),
+      acquisitions: z.number(),
+      dispositions: z.number(),
+      net_buying: z.number(),
+    })
+  ),
+  cache: cacheSchema,
+});
+
+export const portfolioActivityOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  period: z.object({ start_date: z.string(), end_date: z.string().nullable() }),
+  ownership_date: z.string().nullable(),
+  tiers: z.array(
+    z.object({
+      portfolio_size: z.string(),
+      homes_owned: z.number().nullable(),
+      pct_sf_housing_stock: z.number().nullable(),
+      share_change_pct_points: z.number().nullable(),
+      acquisitions: z.number(),
+      dispositions: z.number(),
+      net_buying: z.number(),
+      new_listings_for_sale_30_day: z.number().nullable(),
+      new_listings_for_rent_30_day: z.number().nullable(),
+      direction: z.enum(["entering", "exiting", "neutral"]),
+    })
+  ),
+  cache: cacheSchema,
+});
+
+export const marketActivityOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  property_type: z.string(),
+  period: z.object({ start_date: z.string(), end_date: z.string() }),
+  totals: z.object({
+    sales: z.number(),
+    new_listings_for_sale: z.number(),
+    new_rental_listings: z.number(),
+  }),
+  absorption: z
+    .object({ latest: z.number().nullable(), period: z.number().nullable() })
+    .describe("Sales per new listing for sale, for the latest month and the whole period"),
+  median_sale_price_trend: seriesTrendSchema.nullable(),
+  months: z.array(
+    z.object({
+      date: z.string(),
+      sales: z.number(),
+      new_listings_for_sale: z.number(),
+      new_rental_listings: z.number(),
+      absorption_ratio: z.number().nullable(),
+      median_sale_price: z.number().nullable(),
+      median_list_price: z.number().nullable(),
+      median_rent: z.number().nullable(),
+      median_sale_price_per_sqft: z.number().nullable(),
+      median_square_footage: z.number().nullable(),
+      median_property_age: z.number().nullable(),
+    })
+  ),
+  cache: cacheSchema,
+});
+
+export const newConstructionOutput = z.object({
+  ...marketShape,
+  ...freshnessShape,
+  property_type: z.string(),
+  period: z.object({ start_date: z.string(), end_date: z.string() }),
+  totals: z.object({ sales: z.number(), new_listings_for_sale: z.number() }),
+  price_premium_pct: z
+    .object({ latest: z.number().nullable(), average: z.number().nullable() })
+    .describe("New-construction median sale price relative to the market median sale price"),
+  months: z.array(
+    z.object({
+      date: z.string(),
+      sales: z.number().nullable(),
+      new_listings_for_sale: z.number().nullable(),
+      median_sale_price: z.number().nullable(),
+      median_list_price: z.number().nullable(),
+      market_median_sale_price: z.number().nullable(),
+      price_premium_pct: z.number().nullable(),
+    })
+  ),
+  cache: cacheSchema,
+});
+
+const flagSchema = z.boolean().nullable();
+
+export const propertySummarySchema = objectOf<ReturnType<typeof summarizeProperty>>()({
+  parcl_property_id: z.number().int(),
+  address: z.string(),
+  unit: z.string().nullable(),
+  city: z.string().nullable(),
+  state_abbreviation: z.string(),
+  zip_code: z.string().nullable(),
+  property_type: z.string(),
+  bedrooms: z.number().nullable(),
+  bathrooms: z.number().nullable(),
+  square_footage: z.number().nullable(),
+  year_built: z.number().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  event_count: z.number().int(),
+  owner_occupied: flagSchema,
+  investor_owned: flagSchema,
+  new_construction: flagSchema,
+  entity_owner_name: z.string().nullable(),
+});
+
+export const searchPropertiesOutput = z.object({
+  ...marketShape,
+  properties: z.array(propertySummarySchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  next_offset: z.number().int().nullable(),
+  cache: cacheSchema,
+});
+
+export const lookupAddressesOutput = z.object({
+  ...sourcesShape,
+  matched: z.array(
+    z.object({
+      input: z.string(),
+      parcl_property_id: z.number().int(),
+      normalized_address: z.string(),
+      match_confidence: z.enum(["high", "medium"]),
+      inferred_fields: z.array(z.string()),
+    })
+  ),
+  unmatched: z.array(z.object({ input: z.string(), reason: z.string() })),
+  cache: cacheSchema,
+});
+
+const timelineEventSchema = z.object({
+  date: z.string(),
+  event_type: z.string(),
+  event_name: z.string(),
+  price: z.number().nullable(),
+  investor_owned: flagSchema,
+  owner_occupied: flagSchema,
+  entity_owner_name: z.string().nullable(),
+});
+
+const propertyHistorySchema = objectOf<ReturnType<typeof summarizePropertyHistory>>()({
+  event_count: z.number().int(),
+  last_sale: z.object({ date: z.string(), price: z.number().nullable() }).nullable(),
+  hold_period_days: z.number().nullable(),
+  appreciation: z.array(
+    z.object({
+      from_date: z.string(),
+      to_date: z.string(),
+      from_price: z.number(),
+      to_price: z.number(),
+      held_days: z.number(),
+      change_pct: z.number(),
+      annualized_pct: z.number().nullable(),
+    })
+  ),
+  listing_status: z.enum(["listed_for_sale", "pending_sale", "not_listed"]),
+  last_listing_price: z.number().nullable(),
+  rental_status: z.enum(["listed_for_rent", "rented_or_withdrawn", "none"]),
+  last_rent: z.number().nullable(),
+});
+
+export const propertyHistoryOutput = z.object({
+  ...sourcesShape,
+  properties: z.array(
+    z.intersection(
+      propertyHistorySchema,
+      z.object({
+        parcl_property_id: z.number().int(),
+        timeline: z.array(timelineEventSchema),
+      })
+    )
+  ),
+  cache: cacheSchema,
+});
+
+const snapshotSectionSchema = <T extends z.ZodTypeAny>(value: T) =>
+  z.discriminatedUnion("status", [
+    z.object({ status: z.literal("ok"), value, ...freshnessShape }),
+    z.object({ status: z.literal("error"), error: toolErrorSchema }),
+  ]);
+
+export const marketSnapshotOutput = z.object({
+  ...marketShape,
+  price: snapshotSectionSchema(z.object({ price_per_sqft: z.number(), date: z.string() })),
+  rent: snapshotSectionSchema(z.object({ rent_per_sqft: z.number(), date: z.string() })),
+  volatility: snapshotSectionSchema(z.object({ pct_volatility: z.number(), date: z.string() })),
+  for_sale_inventory: snapshotSectionSchema(
+    z.object({ for_sale_inventory: z.number(), date: z.string() })
+  ),
+  housing_stock: snapshotSectionSchema(
+    z.object({
+      all_properties: z.number(),
+      single_family: z.number().nullable(),
+      condo: z.number().nullable(),
+      townhouse: z.number().nullable(),
+      other: z.number().nullable(),
+      date: z.string(),
+    })
+  ),
+  all_cash: snapshotSectionSchema(
+    z.object({ pct_all_cash: z.number(), count: z.number(), date: z.string() })
+  ),
+  gross_yield: snapshotSectionSchema(z.object({ pct_gross_yield: z.number(), date: z.string() })),
+  failed: z.array(z.string()).describe("Metrics that could not be loaded"),
+  stale: z.array(z.string()).describe("Metrics whose latest observation is older than expected"),
+  cache: cacheSchema,
+});
@@ -0,0 +1,328 @@
+import { z } from "zod";
+
+import { CacheInfo, cached, combineCacheInfo } from "./cache";
+import { Frequency, freshness, staleNote } from "./freshness";
+import { card, formatPct, lineChart } from "./ui";
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total?: number | null;
+}
+
+const PAGE_LIMIT = 1000;
+const MAX_PAGES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date rolls impossible days over ("2024-02-31" becomes March 2), so a real calendar date is one
+// that comes back unchanged. Malformed strings are left to the format check.
+const isCalendarDate = (value: string) => {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return true;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+export const isoDate = z
+  .string()
+  .regex(ISO_DATE_PATTERN, "Dates must use the YYYY-MM-DD format")
+  .refine(isCalendarDate, "Dates must be real calendar dates");
+
+export const dateRangeShape = {
+  start_date: isoDate
+    .optional()
+    .describe("Start of the historical window (YYYY-MM-DD); returns the full daily series"),
+  end_date: isoDate
+    .optional()
+    .describe("End of the historical window (YYYY-MM-DD); defaults to the latest available date"),
+};
+
+// Refinement for inputs with a start_date and end_date, so an inverted range is rejected up front
+// instead of coming back as an empty series.
+export const isOrderedDateRange = ({
+  start_date,
+  end_date,
+}: {
+  start_date?: string;
+  end_date?: string;
+}) => !start_date || !end_date || start_date <= end_date;
+
+export const DATE_RANGE_ORDER_ERROR = {
+  message: "start_date must be on or before end_date",
+  path: ["end_date"],
+};
+
+export const CHANGE_PERIODS = [
+  { period: "1d", days: 1 },
+  { period: "7d", days: 7 },
+  { period: "30d", days: 30 },
+  { period: "90d", days: 90 },
+  { period: "yoy", days: 365 },
+] as const;
+
+// A week more than a year, so weekly series still have a year-over-year baseline.
+export const CHANGE_LOOKBACK_DAYS = 372;
+
+export const changesShape = {
+  include_changes: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Also report 1-day, 7-day, 30-day, 90-day and year-over-year changes; not available with a date range"
+    ),
+};
+
+// Refinement for inputs with both a date range and `include_changes`: changes are measured from
+// the latest observation, so they are rejected rather than silently dropped from a range request.
+export const isChangesWithoutRange = ({
+  start_date,
+  end_date,
+  include_changes,
+}: {
+  start_date?: string;
+  end_date?: string;
+  include_changes?: boolean;
+}) => !include_changes || (!start_date && !end_date);
+
+export const CHANGES_WITH_RANGE_ERROR = {
+  message:
+    "include_changes cannot be combined with start_date or end_date; a date range returns the series summary instead",
+  path: ["include_changes"],
+};
+
+export const isoDaysAgo = (days: number, from: Date = new Date()) =>
+  new Date(from.getTime() - days * DAY_MS).toISOString().slice(0, 10);
+
+export const latestByParclId = <T extends { date: string; parcl_id: number }>(items: T[]) => {
+  const latest = new Map<number, T>();
+
+  for (const item of items) {
+    const current = latest.get(item.parcl_id);
+    if (!current || item.date > current.date) {
+      latest.set(item.parcl_id, item);
+    }
+  }
+
+  return latest;
+};
+
+export const latestItem = <T extends { date: string }>(items: T[]) =>
+  items.reduce((latest, item) => (item.date > latest.date ? item : latest));
+
+// The latest point observed on or before `date` in a series sorted oldest first, for
+// year-over-year style lookbacks.
+export const pointOnOrBefore = <T extends { date: string }>(series: T[], date: string) =>
+  [...series].reverse().find((point) => point.date <= date) ?? null;
+
+// Typical number of days between observations: 1 for daily series, 7 for weekly ones.
+const seriesSpacingDays = <T extends { date: string }>(series: T[]) => {
+  const gaps = series
+    .slice(1)
+    .map((point, index) => (Date.parse(point.date) - Date.parse(series[index].date)) / DAY_MS)
+    .sort((a, b) => a - b);
+
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+};
+
+// The last observation on or before `days` before the latest point of a series sorted oldest
+// first. Periods shorter than the spacing of the series (e.g. 1d for a weekly series), or whose
+// nearest observation lies more than one spacing before the lookback date, have no baseline.
+export const baselinePoint = <T extends { date: string }>(
+  series: T[],
+  days: number,
+  spacing = seriesSpacingDays(series)
+) => {
+  const latest = series[series.length - 1];
+  const candidate =
+    latest && days >= spacing
+      ? pointOnOrBefore(series, isoDaysAgo(days, new Date(latest.date)))
+      : null;
+
+  return candidate &&
+    (Date.parse(latest.date) - Date.parse(candidate.date)) / DAY_MS <= days + spacing
+    ? candidate
+    : null;
+};
+
+// Compares the latest point with its `baselinePoint` for each period, reporting nulls rather than
+// a change over a longer period when there is none.
+export const periodChanges = (series: SeriesPoint[]) => {
+  const latest = series[series.length - 1];
+  const spacing = seriesSpacingDays(series);
+
+  return CHANGE_PERIODS.map(({ period, days }) => {
+    const baseline = baselinePoint(series, days, spacing);
+
+    return {
+      period,
+      baseline_date: baseline?.date ?? null,
+      baseline_value: baseline?.value ?? null,
+      change: baseline ? latest.value - baseline.value : null,
+      change_pct:
+        baseline && baseline.value !== 0
+          ? ((latest.value - baseline.value) / baseline.value) * 100
+          : null,
+    };
+  });
+};
+
+export type PeriodChange = ReturnType<typeof periodChanges>[number];
+
+export const fetchAllPages = async <T>(
+  fetchPage: (params: { limit: number; offset: number }) => Promise<Page<T>>
+): Promise<T[]> => {
+  const items: T[] = [];
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { items: pageItems, total } = await fetchPage({
+      limit: PAGE_LIMIT,
+      offset: items.length,
+    });
+    items.push(...pageItems);
+
+    if (pageItems.length < PAGE_LIMIT || (total != null && items.length >= total)) {
+      break;
+    }
+  }
+
+  return items;
+};
+
+// Fetches every page of a paginated endpoint through the response cache.
+export const fetchCachedPages = async <P extends object, T>(
+  endpoint: string,
+  params: P,
+  load: (params: P & { limit: number; offset: number }) => Promise<Page<T>>
+) => {
+  const pages: CacheInfo[] = [];
+  const items = await fetchAllPages(async (pageParams) => {
+    const request = { ...params, ...pageParams };
+    const { data, cache } = await cached(endpoint, request, () => load(request));
+    pages.push(cache);
+    return data;
+  });
+
+  return { items, cache: combineCacheInfo(pages) };
+};
+
+export const toSeries = <T extends { date: string }>(items: T[], value: (item: T) => number) =>
+  items
+    .map((item) => ({ date: item.date, value: value(item) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const summarizeSeries = (series: SeriesPoint[]) => {
+  if (series.length === 0) {
+    return null;
+  }
+
+  const start = series[0];
+  const end = series[series.length - 1];
+  const min = series.reduce((low, point) => (point.value < low.value ? point : low));
+  const max = series.reduce((high, point) => (point.value > high.value ? point : high));
+  const years = (Date.parse(end.date) - Date.parse(start.date)) / DAY_MS / 365.25;
+
+  return {
+    observations: series.length,
+    start,
+    end,
+    min,
+    max,
+    change: end.value - start.value,
+    change_pct: start.value !== 0 ? ((end.value - start.value) / start.value) * 100 : null,
+    cagr_pct:
+      years > 0 && start.value > 0 && end.value > 0
+        ? (Math.pow(end.value / start.value, 1 / years) - 1) * 100
+        : null,
+  };
+};
+
+export const describeValues = (values: number[]) => {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    count: values.length,
+    mean,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    std_dev: Math.sqrt(variance),
+  };
+};
+
+export type SeriesSummary = NonNullable<ReturnType<typeof summarizeSeries>>;
+
+// `metadata` (market and source fields) is merged into the data ahead of the series. The last
+// observation is only checked for staleness when a `frequency` is given.
+export const seriesResponse = ({
+  title,
+  metric,
+  unit,
+  location,
+  series,
+  frequency = null,
+  metadata,
+  cache,
+}: {
+  title: string;
+  metric: string;
+  unit: string;
+  location: string;
+  series: SeriesPoint[];
+  frequency?: Frequency | null;
+  metadata?: object;
+  cache?: object;
+}) => {
+  const summary = summarizeSeries(series);
+  const fresh = freshness(summary?.end.date, frequency);
+
+  if (!summary) {
+    const text = `No ${metric} observations were found for ${location} in the requested date range`;
+
+    return {
+      text,
+      data: { ...metadata, value: null, unit, date: null, ...fresh, series, summary, cache },
+      ui: card(title, [text]),
+    };
+  }
+
+  return {
+    text:
+      `The ${metric} for ${location} moved from ${summary.start.value} on ${summary.start.date} ` +
+      `to ${summary.end.value} on ${summary.end.date} (${formatPct(summary.change_pct)}, ` +
+      `CAGR ${formatPct(summary.cagr_pct)}), ranging between ${summary.min.value} and ` +
+      `${summary.max.value} over ${summary.observations} observations.${staleNote(fresh)}`,
+    data: {
+      ...metadata,
+      value: summary.end.value,
+      unit,
+      date: summary.end.date,
+      ...fresh,
+      series,
+      summary,
+      cache,
+    },
+    ui: lineChart({
+      title,
+      description:
+        `${summary.start.date} to ${summary.end.date}: ${formatPct(summary.change_pct)}` +
+        (fresh.stale ? " (stale)" : ""),
+      series,
+    }),
+  };
+};
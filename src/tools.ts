@@ -0,0 +1,2599 @@
+import { z } from "zod";
+
+import { ToolConfig } from "@dainprotocol/service-sdk";
+
+import { CacheInfo, cached, combineCacheInfo } from "./cache";
+import { ENDPOINTS, getParclClient } from "./client";
+import {
+  NoDataError,
+  ToolError,
+  errorResponse,
+  requireItems,
+  toToolError,
+  withErrorHandling,
+} from "./errors";
+import { Frequency, Freshness, freshness, staleNote } from "./freshness";
+import {
+  LOCATION_TYPES,
+  MARKET_SORT_FIELDS,
+  Market,
+  MarketResolution,
+  PORTFOLIO_SIZES,
+  PROPERTY_TYPES,
+  PortfolioSize,
+  REGIONS,
+  STATE_ABBREVIATIONS,
+  describeMarket,
+  marketFilterShape,
+  resolveMarket,
+  searchMarkets,
+  unresolvedMarketResponse,
+} from "./markets";
+import {
+  ENTITY_OWNER_NAMES,
+  EVENT_TYPES,
+  SEARCH_PROPERTY_TYPES,
+  asList,
+  flag,
+  formatAddress,
+  parseAddress,
+  summarizeProperty,
+  summarizePropertyHistory,
+} from "./properties";
+import {
+  compareMarketsOutput,
+  grossYieldOutput,
+  housingStockOutput,
+  investorActivityOutput,
+  lookupAddressesOutput,
+  marketActivityOutput,
+  marketSnapshotOutput,
+  newConstructionOutput,
+  portfolioActivityOutput,
+  priceFeedOutput,
+  propertyHistoryOutput,
+  rentalSupplyOutput,
+  saleInventoryAnalysisOutput,
+  saleInventoryOutput,
+  searchMarketsOutput,
+  searchPropertiesOutput,
+  toolOutput,
+  volatilityOutput,
+} from "./schemas";
+import {
+  CHANGE_LOOKBACK_DAYS,
+  CHANGES_WITH_RANGE_ERROR,
+  DATE_RANGE_ORDER_ERROR,
+  Page,
+  PeriodChange,
+  SeriesPoint,
+  baselinePoint,
+  changesShape,
+  dateRangeShape,
+  describeValues,
+  fetchCachedPages,
+  isChangesWithoutRange,
+  isOrderedDateRange,
+  isoDate,
+  isoDaysAgo,
+  latestByParclId,
+  latestItem,
+  periodChanges,
+  pointOnOrBefore,
+  seriesResponse,
+  summarizeSeries,
+  toSeries,
+} from "./series";
+import { card, formatPct, formatValue, lineChart, metricCard, table } from "./ui";
+
+// Identifies the resolved market and the Parcl endpoints a tool's data came from.
+const marketMetadata = (market: Market, ...sources: string[]) => ({
+  parcl_id: market.parcl_id,
+  market_name: market.name,
+  state_abbreviation: market.state_abbreviation ?? null,
+  location_type: market.location_type,
+  sources,
+});
+
+const PRICE_UNIT = "USD per square foot";
+const RENT_UNIT = "USD per square foot per month";
+const PERCENT_UNIT = "percent";
+const HOMES_UNIT = "homes";
+
+const MAX_COMPARED_MARKETS = 20;
+
+// The batch endpoints return the whole history unless bounded, so comparisons only look at the
+// most recent month and keep the latest observation per market.
+const COMPARISON_LOOKBACK_DAYS = 30;
+
+const MAX_YIELD_HISTORY_MONTHS = 120;
+
+const MAX_ALL_CASH_HISTORY_MONTHS = 120;
+
+const MAX_INVENTORY_HISTORY_WEEKS = 104;
+
+const MAX_RENTAL_SUPPLY_HISTORY_MONTHS = 60;
+
+const ROLLING_WINDOWS = [
+  "rolling_7_day",
+  "rolling_30_day",
+  "rolling_60_day",
+  "rolling_90_day",
+] as const;
+
+type RollingCounts = { date: string } & Record<(typeof ROLLING_WINDOWS)[number], number | null>;
+
+const rollingCounts = (item: RollingCounts): RollingCounts => ({
+  date: item.date,
+  rolling_7_day: item.rolling_7_day ?? null,
+  rolling_30_day: item.rolling_30_day ?? null,
+  rolling_60_day: item.rolling_60_day ?? null,
+  rolling_90_day: item.rolling_90_day ?? null,
+});
+
+// Share of the for-sale inventory with a price cut above which a market is flagged as softening.
+const PRICE_CUT_SOFTENING_PCT = 20;
+
+// A 7-day new listing pace within this relative band of the 90-day weekly average is steady.
+const LISTING_VELOCITY_TOLERANCE = 0.1;
+
+// Compares the weekly pace of new listings over the last 7 days with the 90-day average pace.
+const listingVelocity = (recent: number | null, baseline: number | null) => {
+  if (recent == null || baseline == null || baseline === 0) {
+    return "unknown";
+  }
+
+  const change = (recent - baseline) / baseline;
+
+  return Math.abs(change) <= LISTING_VELOCITY_TOLERANCE
+    ? "steady"
+    : change > 0
+    ? "accelerating"
+    : "slowing";
+};
+
+const HOUSING_STOCK_TYPES = ["single_family", "condo", "townhouse", "other"] as const;
+
+const MAX_ADDRESS_LOOKUPS = 100;
+
+const MAX_HISTORY_PROPERTIES = 50;
+
+type SnapshotSection<T> =
+  | ({ status: "ok"; value: T } & Freshness)
+  | { status: "error"; error: ToolError };
+
+// Loads one snapshot metric, turning a failure into an error section so the others still render.
+const snapshotSection = async <T extends { date: string }>(
+  frequency: Frequency,
+  load: () => Promise<T>
+): Promise<SnapshotSection<T>> => {
+  try {
+    const value = await load();
+    return { status: "ok", value, ...freshness(value.date, frequency) };
+  } catch (err) {
+    console.error(err);
+    return { status: "error", error: toToolError(err) };
+  }
+};
+
+const snapshotLine = <T extends { date: string }>(
+  title: string,
+  section: SnapshotSection<T>,
+  format: (value: T) => string
+) =>
+  section.status === "ok"
+    ? `${title}: ${format(section.value)} (${section.value.date}${section.stale ? ", stale" : ""})`
+    : `${title}: unavailable (${section.error.code})`;
+
+// Fetches the year of history behind the latest observation and measures how the latest value
+// changed over each period in CHANGE_PERIODS.
+const loadChanges = async <T extends { date: string }>(
+  endpoint: string,
+  parcl_id: number,
+  latestDate: string,
+  load: (params: {
+    parcl_id: number;
+    start_date: string;
+    end_date: string;
+    limit: number;
+    offset: number;
+  }) => Promise<Page<T>>,
+  value: (item: T) => number
+) => {
+  const params = {
+    parcl_id,
+    start_date: isoDaysAgo(CHANGE_LOOKBACK_DAYS, new Date(latestDate)),
+    end_date: latestDate,
+  };
+  const { items, cache } = await fetchCachedPages(endpoint, params, load);
+
+  return { changes: periodChanges(toSeries(items, value)), cache };
+};
+
+const describeChanges = (changes: PeriodChange[]) => {
+  const known = changes.filter((change) => change.baseline_date != null);
+
+  return known.length > 0
+    ? ` Changes: ${known
+        .map(
+          (change) =>
+            `${change.period} ${formatPct(change.change_pct)} (from ${change.baseline_value} on ` +
+            `${change.baseline_date})`
+        )
+        .join(", ")}.`
+    : " No earlier observations are available to compute changes.";
+};
+
+const changeBadges = (changes: PeriodChange[]) =>
+  changes.map(({ period, change_pct }) => ({ label: period, change_pct }));
+
+const MIN_VOLATILITY_WINDOW = 5;
+const MAX_VOLATILITY_WINDOW = 90;
+
+// Readings within this relative band of each other are reported as a stable trend.
+const VOLATILITY_TREND_TOLERANCE = 0.01;
+
+// Compares the mean of the most recent half of the window against the earlier half.
+const volatilityTrend = (values: number[]) => {
+  const half = Math.floor(values.length / 2);
+
+  if (half === 0) {
+    return { direction: "unknown", earlier_average: null, recent_average: null };
+  }
+
+  const earlier = describeValues(values.slice(0, half))!.mean;
+  const recent = describeValues(values.slice(values.length - half))!.mean;
+  const change = earlier !== 0 ? (recent - earlier) / earlier : 0;
+
+  return {
+    direction:
+      Math.abs(change) <= VOLATILITY_TREND_TOLERANCE ? "stable" : change > 0 ? "rising" : "falling",
+    earlier_average: earlier,
+    recent_average: recent,
+  };
+};
+
+// Moves within this relative band over a period are reported as a stable trend.
+const SERIES_TREND_TOLERANCE = 0.01;
+
+// Compares the first and last value of a period.
+const seriesTrend = (series: SeriesPoint[]) => {
+  const summary = summarizeSeries(series);
+
+  if (!summary) {
+    return null;
+  }
+
+  const change = summary.change_pct == null ? 0 : summary.change_pct / 100;
+
+  return {
+    direction:
+      Math.abs(change) <= SERIES_TREND_TOLERANCE ? "stable" : change > 0 ? "rising" : "falling",
+    start: summary.start,
+    end: summary.end,
+    change: summary.change,
+    change_pct: summary.change_pct,
+  };
+};
+
+export const getParclPriceFeed: ToolConfig = {
+  id: "get-parcl-price-feed",
+  name: "Get Parcl Price Feed",
+  description:
+    "Fetches the latest Parcl price feed with optional 1d/7d/30d/90d/YoY changes, or the daily history when a date range is given",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the property price per square foot for"),
+      ...marketFilterShape,
+      ...dateRangeShape,
+      ...changesShape,
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .refine(isChangesWithoutRange, CHANGES_WITH_RANGE_ERROR)
+    .describe("Input parameters for the Parcl price feed request"),
+  output: toolOutput(priceFeedOutput, "Parcl price per square foot for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { location, state_abbreviation, location_type, start_date, end_date, include_changes },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} requested price feed for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const parclid = resolution.market.parcl_id;
+
+      if (start_date || end_date) {
+        const { items, cache } = await fetchCachedPages(
+          "price_feed",
+          { parcl_id: parclid, start_date, end_date },
+          (request) => parcl.priceFeed(request)
+        );
+
+        return seriesResponse({
+          title: "Property Price Feed History",
+          metric: "price per square foot",
+          unit: PRICE_UNIT,
+          location: describeMarket(resolution.market),
+          frequency: end_date ? null : "daily",
+          series: toSeries(items, (item) => item.price_feed),
+          metadata: marketMetadata(resolution.market, ENDPOINTS.priceFeed),
+          cache,
+        });
+      }
+
+      const { data, cache } = await cached("price_feed", { parcl_id: parclid }, () =>
+        parcl.priceFeed({ parcl_id: parclid })
+      );
+
+      const latest = latestItem(requireItems(data.items, "price feed"));
+      const fresh = freshness(latest.date, "daily");
+      const history = include_changes
+        ? await loadChanges(
+            "price_feed",
+            parclid,
+            latest.date,
+            (request) => parcl.priceFeed(request),
+            (item) => item.price_feed
+          )
+        : null;
+
+      return {
+        text:
+          `The current price of property per square foot in ` +
+          `${describeMarket(resolution.market)} is ${latest.price_feed} as of ${latest.date}.` +
+          (history ? describeChanges(history.changes) : "") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.priceFeed),
+          value: latest.price_feed,
+          unit: PRICE_UNIT,
+          date: latest.date,
+          ...fresh,
+          changes: history?.changes,
+          cache: history ? combineCacheInfo([cache, history.cache]) : cache,
+        },
+        ui: metricCard({
+          title: `Price per Sq Ft: ${describeMarket(resolution.market)}`,
+          value: latest.price_feed,
+          unit: PRICE_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          changes: history ? changeBadges(history.changes) : [],
+        }),
+      };
+    },
+    priceFeedOutput
+  ),
+};
+
+export const getParclRentalPriceFeed: ToolConfig = {
+  id: "get-parcl-rental-price-feed",
+  name: "Get Parcl Rental Price Feed",
+  description:
+    "Fetches the latest Parcl Rental price feed with optional 1d/7d/30d/90d/YoY changes, or the daily history when a date range is given",
+  input: z
+    .object({
+      location: z
+        .string()
+        .describe("The location to get the property rental price per square foot for"),
+      ...marketFilterShape,
+      ...dateRangeShape,
+      ...changesShape,
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .refine(isChangesWithoutRange, CHANGES_WITH_RANGE_ERROR)
+    .describe("Input parameters for the Parcl rental price feed request"),
+  output: toolOutput(
+    priceFeedOutput,
+    "Parcl rental price per square foot for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { location, state_abbreviation, location_type, start_date, end_date, include_changes },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} requested rental price feed for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const parclid = resolution.market.parcl_id;
+
+      if (start_date || end_date) {
+        const { items, cache } = await fetchCachedPages(
+          "rental_price_feed",
+          { parcl_id: parclid, start_date, end_date },
+          (request) => parcl.rentalPriceFeed(request)
+        );
+
+        return seriesResponse({
+          title: "Property Rental Price Feed History",
+          metric: "rental price per square foot",
+          unit: RENT_UNIT,
+          location: describeMarket(resolution.market),
+          frequency: end_date ? null : "daily",
+          series: toSeries(items, (item) => item.rental_price_feed),
+          metadata: marketMetadata(resolution.market, ENDPOINTS.rentalPriceFeed),
+          cache,
+        });
+      }
+
+      const { data, cache } = await cached("rental_price_feed", { parcl_id: parclid }, () =>
+        parcl.rentalPriceFeed({ parcl_id: parclid })
+      );
+
+      const latest = latestItem(requireItems(data.items, "rental price feed"));
+      const fresh = freshness(latest.date, "daily");
+      const history = include_changes
+        ? await loadChanges(
+            "rental_price_feed",
+            parclid,
+            latest.date,
+            (request) => parcl.rentalPriceFeed(request),
+            (item) => item.rental_price_feed
+          )
+        : null;
+
+      return {
+        text:
+          `The current rental price of property per square foot in ` +
+          `${describeMarket(resolution.market)} is ${latest.rental_price_feed} as of ` +
+          `${latest.date}.` +
+          (history ? describeChanges(history.changes) : "") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.rentalPriceFeed),
+          value: latest.rental_price_feed,
+          unit: RENT_UNIT,
+          date: latest.date,
+          ...fresh,
+          changes: history?.changes,
+          cache: history ? combineCacheInfo([cache, history.cache]) : cache,
+        },
+        ui: metricCard({
+          title: `Rent per Sq Ft: ${describeMarket(resolution.market)}`,
+          value: latest.rental_price_feed,
+          unit: RENT_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          changes: history ? changeBadges(history.changes) : [],
+        }),
+      };
+    },
+    priceFeedOutput
+  ),
+};
+
+export const getParclVolatilityFeed: ToolConfig = {
+  id: "get-parcl-volatility-feed",
+  name: "Get Parcl Volatility Feed",
+  description:
+    "Fetches Parcl volatility statistics (average, median, range, deviation and trend) over a window of recent days",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the property volatility rate for"),
+      ...marketFilterShape,
+      window: z
+        .number()
+        .int()
+        .min(MIN_VOLATILITY_WINDOW)
+        .max(MAX_VOLATILITY_WINDOW)
+        .default(10)
+        .describe("Number of most recent daily observations to summarize"),
+    })
+    .describe("Input parameters for the Parcl volatility rate feed request"),
+  output: toolOutput(
+    volatilityOutput,
+    "Parcl volatility statistics over the requested window for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, window }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested volatility rate for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const parclid = resolution.market.parcl_id;
+      const params = { parcl_id: parclid, limit: window };
+      const { data, cache } = await cached("volatility", params, () => parcl.volatility(params));
+
+      const series = toSeries(
+        requireItems(data.items, "volatility").slice(0, window),
+        (item) => item.pct_volatility
+      );
+      const stats = describeValues(series.map((point) => point.value))!;
+      const latest = series[series.length - 1];
+      const trend = volatilityTrend(series.map((point) => point.value));
+      const shortfall =
+        series.length < window
+          ? ` Only ${series.length} of the requested ${window} days were available.`
+          : "";
+      const fresh = freshness(latest.date, "daily");
+
+      return {
+        text:
+          `Over the last ${series.length} days (${series[0].date} to ${latest.date}) the ` +
+          `volatility rate for ${describeMarket(resolution.market)} averaged ${
+            stats.mean
+          } (median ${stats.median}, ` +
+          `min ${stats.min}, max ${stats.max}, standard deviation ${stats.std_dev}). The latest ` +
+          `reading is ${latest.value} and the volatility trend is ${trend.direction}.${shortfall}` +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.volatility),
+          value: latest.value,
+          unit: PERCENT_UNIT,
+          date: latest.date,
+          ...fresh,
+          window,
+          observations: series.length,
+          volatility_average: stats.mean,
+          volatility_median: stats.median,
+          volatility_min: stats.min,
+          volatility_max: stats.max,
+          volatility_std_dev: stats.std_dev,
+          latest,
+          trend,
+          series,
+          cache,
+        },
+        ui: metricCard({
+          title: `Volatility: ${describeMarket(resolution.market)}`,
+          value: latest.value,
+          unit: PERCENT_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          details: [
+            `${series.length}-day average ${formatValue(stats.mean)}, median ` +
+              `${formatValue(stats.median)}, range ${formatValue(stats.min)}-` +
+              `${formatValue(stats.max)}`,
+            `Trend: ${trend.direction}`,
+          ],
+        }),
+      };
+    },
+    volatilityOutput
+  ),
+};
+
+export const getParclSaleInventoryFeed: ToolConfig = {
+  id: "get-parcl-sale-inventory-feed",
+  name: "Get Parcl Sale Inventory Feed",
+  description: "Fetches the latest Parcl sale inventory with optional 1d/7d/30d/90d/YoY changes",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the sale inventory for"),
+      ...marketFilterShape,
+      ...changesShape,
+    })
+    .describe("Input parameters for the Parcl sale inventory request"),
+  output: toolOutput(saleInventoryOutput, "Parcl sale inventory for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, include_changes }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested sale inventory for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const parclid = resolution.market.parcl_id;
+      const { data, cache } = await cached("for_sale_inventory", { parcl_id: parclid }, () =>
+        parcl.forSaleInventory({ parcl_id: parclid })
+      );
+
+      const latest = latestItem(requireItems(data.items, "for-sale inventory"));
+      const fresh = freshness(latest.date, "weekly");
+      const history = include_changes
+        ? await loadChanges(
+            "for_sale_inventory",
+            parclid,
+            latest.date,
+            (request) => parcl.forSaleInventory(request),
+            (item) => item.for_sale_inventory
+          )
+        : null;
+
+      return {
+        text:
+          `The current sale inventory for ${describeMarket(resolution.market)} is ` +
+          `${latest.for_sale_inventory} homes as of ${latest.date}.` +
+          (history ? describeChanges(history.changes) : "") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.forSaleInventory),
+          value: latest.for_sale_inventory,
+          unit: HOMES_UNIT,
+          date: latest.date,
+          ...fresh,
+          changes: history?.changes,
+          cache: history ? combineCacheInfo([cache, history.cache]) : cache,
+        },
+        ui: metricCard({
+          title: `For-Sale Inventory: ${describeMarket(resolution.market)}`,
+          value: latest.for_sale_inventory,
+          unit: HOMES_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          changes: history ? changeBadges(history.changes) : [],
+        }),
+      };
+    },
+    saleInventoryOutput
+  ),
+};
+
+export const searchParclMarkets: ToolConfig = {
+  id: "search-markets",
+  name: "Search Parcl Markets",
+  description:
+    "Searches the Parcl market directory and returns matching markets with their parcl_id",
+  input: z
+    .object({
+      query: z
+        .string()
+        .optional()
+        .describe("Free-text market name to search for, e.g. Miami or 78701"),
+      state_abbreviation: z
+        .enum(STATE_ABBREVIATIONS)
+        .optional()
+        .describe("Only return markets in this state, e.g. FL"),
+      region: z.enum(REGIONS).optional().describe("Only return markets in this census region"),
+      location_type: z
+        .enum(LOCATION_TYPES)
+        .optional()
+        .describe("Only return markets of this kind, e.g. CITY, COUNTY, ZIP5 or CBSA"),
+      sort_by: z
+        .enum(MARKET_SORT_FIELDS)
+        .default("TOTAL_POPULATION")
+        .describe("Field used to order the results"),
+      sort_order: z.enum(["ASC", "DESC"]).default("DESC").describe("Sort direction"),
+      limit: z.number().int().min(1).max(100).default(12).describe("Page size"),
+      offset: z.number().int().min(0).default(0).describe("Number of markets to skip"),
+    })
+    .describe("Input parameters for the Parcl market search request"),
+  output: toolOutput(searchMarketsOutput, "A page of Parcl markets matching the search criteria"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { query, state_abbreviation, region, location_type, sort_by, sort_order, limit, offset },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} searched markets for ${query ?? "all markets"}`);
+
+      const { data: page, cache } = await searchMarkets({
+        query,
+        state_abbreviation,
+        region,
+        location_type,
+        sort_by,
+        sort_order,
+        limit,
+        offset,
+      });
+
+      const markets = page.items.map((market) => ({
+        parcl_id: market.parcl_id,
+        name: market.name,
+        state_abbreviation: market.state_abbreviation,
+        region: market.region,
+        geoid: market.geoid,
+        location_type: market.location_type,
+        total_population: market.total_population,
+        median_income: market.median_income,
+        pricefeed_market: market.pricefeed_market === 1,
+        parcl_exchange_market: market.parcl_exchange_market === 1,
+        case_shiller_10_market: market.case_shiller_10_market === 1,
+        case_shiller_20_market: market.case_shiller_20_market === 1,
+      }));
+      const total = page.total ?? markets.length;
+      const nextOffset = offset + markets.length < total ? offset + markets.length : null;
+
+      return {
+        text:
+          markets.length > 0
+            ? `Found ${total} markets; showing ${offset + 1}-${offset + markets.length}: ${markets
+                .map((market) => `${market.name} (parcl_id ${market.parcl_id})`)
+                .join(", ")}`
+            : `No markets matched ${query ? `"${query}"` : "the given filters"}`,
+        data: {
+          sources: [ENDPOINTS.searchMarkets],
+          markets,
+          total,
+          limit,
+          offset,
+          next_offset: nextOffset,
+          cache,
+        },
+        ui: table(
+          [
+            { key: "parcl_id", header: "Parcl ID", type: "number" },
+            { key: "name", header: "Name", type: "text" },
+            { key: "state_abbreviation", header: "State", type: "text" },
+            { key: "location_type", header: "Type", type: "text" },
+            { key: "geoid", header: "GEOID", type: "text" },
+            { key: "total_population", header: "Population", type: "number" },
+            { key: "median_income", header: "Median Income", type: "number" },
+            { key: "pricefeed_market", header: "Price Feed", type: "text" },
+            { key: "parcl_exchange_market", header: "Parcl Exchange", type: "text" },
+          ],
+          markets.map((market) => ({
+            ...market,
+            pricefeed_market: market.pricefeed_market ? "Yes" : "No",
+            parcl_exchange_market: market.parcl_exchange_market ? "Yes" : "No",
+          }))
+        ),
+      };
+    },
+    searchMarketsOutput
+  ),
+};
+
+export const compareParclMarkets: ToolConfig = {
+  id: "compare-markets",
+  name: "Compare Parcl Markets",
+  description:
+    "Compares the latest sale and rental price per square foot and the price-to-rent ratio across several markets",
+  input: z
+    .object({
+      locations: z
+        .array(z.string())
+        .min(2)
+        .max(MAX_COMPARED_MARKETS)
+        .describe('The locations to compare, e.g. ["Austin, TX", "Miami", "Denver"]'),
+      location_type: marketFilterShape.location_type,
+      rank_by: z
+        .enum(["price_to_rent_ratio", "price", "rental_price"])
+        .default("price_to_rent_ratio")
+        .describe("Metric used to rank the markets, lowest first"),
+    })
+    .describe("Input parameters for the Parcl market comparison request"),
+  output: toolOutput(
+    compareMarketsOutput,
+    "Ranked sale and rental price comparison for the requested markets"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(async ({ locations, location_type, rank_by }, agentInfo) => {
+    console.log(`Agent ${agentInfo.agentId} requested a comparison of ${locations.join(", ")}`);
+    const parcl = getParclClient();
+
+    const resolutions: MarketResolution[] = await Promise.all(
+      locations.map((location: string) => resolveMarket(location, { location_type }))
+    );
+    const markets = resolutions.flatMap((resolution) =>
+      resolution.status === "resolved" ? [resolution.market] : []
+    );
+    const unresolved = resolutions.flatMap((resolution) =>
+      resolution.status === "resolved" ? [] : [unresolvedMarketResponse(resolution).data]
+    );
+
+    if (markets.length === 0) {
+      const text = "None of the requested locations could be matched to a Parcl market";
+
+      return {
+        text,
+        data: { sources: [ENDPOINTS.searchMarkets], markets: [], unresolved },
+        ui: card("Market Comparison", [text]),
+      };
+    }
+
+    const parclIds = markets.map((market) => market.parcl_id);
+    const start_date = isoDaysAgo(COMPARISON_LOOKBACK_DAYS);
+
+    const body = { parcl_id: parclIds, start_date };
+    const [priceFeed, rentalFeed] = await Promise.all([
+      cached("price_feed", body, () => parcl.priceFeedBatch(body)),
+      cached("rental_price_feed", body, () => parcl.rentalPriceFeedBatch(body)),
+    ]);
+    const prices = latestByParclId(priceFeed.data.items);
+    const rents = latestByParclId(rentalFeed.data.items);
+
+    const rows = markets.map((market) => {
+      const price = prices.get(market.parcl_id);
+      const rent = rents.get(market.parcl_id);
+      // A row is only as fresh as the older of its two observations.
+      const [oldest] = [price?.date, rent?.date].filter(Boolean).sort();
+
+      return {
+        parcl_id: market.parcl_id,
+        name: market.name,
+        state_abbreviation: market.state_abbreviation,
+        location_type: market.location_type,
+        price: price?.price_feed ?? null,
+        price_date: price?.date ?? null,
+        rental_price: rent?.rental_price_feed ?? null,
+        rental_price_date: rent?.date ?? null,
+        price_to_rent_ratio:
+          price && rent && rent.rental_price_feed > 0
+            ? price.price_feed / (rent.rental_price_feed * 12)
+            : null,
+        ...freshness(oldest, "daily"),
+      };
+    });
+
+    const ranked = [...rows]
+      .sort((a, b) => (a[rank_by] ?? Infinity) - (b[rank_by] ?? Infinity))
+      .map((row, index) => ({ rank: index + 1, ...row }));
+
+    return {
+      text:
+        `Markets ranked by ${rank_by.replace(/_/g, " ")} (lowest first): ` +
+        ranked
+          .map(
+            (row) =>
+              `${row.rank}. ${row.name}${
+                row.state_abbreviation ? `, ${row.state_abbreviation}` : ""
+              }` +
+              ` — price ${row.price ?? "n/a"}/sqft, rent ${row.rental_price ?? "n/a"}/sqft, ` +
+              `price-to-rent ${row.price_to_rent_ratio?.toFixed(1) ?? "n/a"}` +
+              ` (as of ${row.as_of ?? "n/a"}${row.stale ? ", stale" : ""})`
+          )
+          .join("; ") +
+        (unresolved.length > 0
+          ? `. Could not match: ${unresolved.map((entry) => entry.query).join(", ")}`
+          : ""),
+      data: {
+        sources: [ENDPOINTS.priceFeedBatch, ENDPOINTS.rentalPriceFeedBatch],
+        rank_by,
+        markets: ranked,
+        unresolved,
+        cache: combineCacheInfo([priceFeed.cache, rentalFeed.cache]),
+      },
+      ui: table(
+        [
+          { key: "rank", header: "#", type: "number" },
+          { key: "name", header: "Market", type: "text" },
+          { key: "state_abbreviation", header: "State", type: "text" },
+          { key: "price", header: "Price / sqft", type: "number" },
+          { key: "rental_price", header: "Rent / sqft", type: "number" },
+          { key: "price_to_rent_ratio", header: "Price-to-Rent", type: "number" },
+          { key: "as_of", header: "As Of", type: "text" },
+        ],
+        ranked.map((row) => ({
+          ...row,
+          price_to_rent_ratio: row.price_to_rent_ratio?.toFixed(1) ?? null,
+        }))
+      ),
+    };
+  }, compareMarketsOutput),
+};
+
+export const getParclGrossYield: ToolConfig = {
+  id: "get-parcl-gross-yield",
+  name: "Get Parcl Gross Yield",
+  description:
+    "Fetches the latest Parcl gross rental yield for a location with its trailing monthly history and year-over-year change",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the gross rental yield for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to report the yield for"),
+      months: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_YIELD_HISTORY_MONTHS)
+        .default(12)
+        .describe("Number of trailing months of yield history to return"),
+    })
+    .describe("Input parameters for the Parcl gross yield request"),
+  output: toolOutput(grossYieldOutput, "Parcl gross rental yield for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, property_type, months }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested gross yield for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      // One extra year is fetched so the oldest month in the history still has a comparison.
+      const params = {
+        parcl_id: resolution.market.parcl_id,
+        property_type,
+        limit: months + 12,
+      };
+      const { data, cache } = await cached("gross_yield", params, () => parcl.grossYield(params));
+
+      const series = toSeries(
+        requireItems(
+          data.items.filter((item) => item.pct_gross_yield != null),
+          "gross yield"
+        ),
+        (item) => item.pct_gross_yield as number
+      );
+      const latest = series[series.length - 1];
+      const previousYear = pointOnOrBefore(series, isoDaysAgo(365, new Date(latest.date)));
+      const change = previousYear ? latest.value - previousYear.value : null;
+      const history = series.slice(-months);
+      const fresh = freshness(latest.date, "monthly");
+
+      return {
+        text:
+          `The gross rental yield for ${describeMarket(resolution.market)} was ` +
+          `${latest.value}% as of ${latest.date}` +
+          (previousYear && change != null
+            ? `, ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(2)} percentage ` +
+              `points from ${previousYear.value}% on ${previousYear.date}.`
+            : "; no observation from a year earlier is available for comparison.") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.grossYield),
+          value: latest.value,
+          unit: PERCENT_UNIT,
+          date: latest.date,
+          ...fresh,
+          property_type,
+          previous_year: previousYear,
+          change_pct_points: change,
+          history,
+          cache,
+        },
+        ui: metricCard({
+          title: `Gross Rental Yield: ${describeMarket(resolution.market)}`,
+          value: latest.value,
+          unit: PERCENT_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          details:
+            previousYear && change != null
+              ? [`${change >= 0 ? "+" : ""}${change.toFixed(2)} pts vs ${previousYear.date}`]
+              : [],
+        }),
+      };
+    },
+    grossYieldOutput
+  ),
+};
+
+export const getParclInvestorActivity: ToolConfig = {
+  id: "get-parcl-investor-activity",
+  name: "Get Parcl Investor Activity",
+  description:
+    "Reports investor acquisitions, dispositions, net buying, purchase-to-sale ratio and investor ownership share for a location",
+  input: z
+    .object({
+      location: z.string().describe("The location to get investor activity for"),
+      ...marketFilterShape,
+      start_date: isoDate
+        .optional()
+        .describe("Start of the reporting period (YYYY-MM-DD); defaults to twelve months ago"),
+      end_date: isoDate
+        .optional()
+        .describe("End of the reporting period (YYYY-MM-DD); defaults to the latest month"),
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .describe("Input parameters for the Parcl investor activity request"),
+  output: toolOutput(investorActivityOutput, "Investor activity report for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, start_date, end_date }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested investor activity for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const params = {
+        parcl_id: resolution.market.parcl_id,
+        start_date: start_date ?? isoDaysAgo(365),
+        end_date,
+      };
+
+      const [events, ratios, ownership] = await Promise.all([
+        fetchCachedPages("investor_housing_event_counts", params, (request) =>
+          parcl.investorHousingEventCounts(request)
+        ),
+        fetchCachedPages("investor_purchase_to_sale_ratio", params, (request) =>
+          parcl.investorPurchaseToSaleRatio(request)
+        ),
+        fetchCachedPages("investor_housing_stock_ownership", params, (request) =>
+          parcl.investorHousingStockOwnership(request)
+        ),
+      ]);
+
+      const months = [...requireItems(events.items, "investor activity")]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((item) => ({
+          date: item.date,
+          acquisitions: item.acquisitions,
+          dispositions: item.dispositions,
+          net_buying: item.acquisitions - item.dispositions,
+        }));
+      const acquisitions = months.reduce((sum, month) => sum + month.acquisitions, 0);
+      const dispositions = months.reduce((sum, month) => sum + month.dispositions, 0);
+      const netBuying = acquisitions - dispositions;
+
+      const ratioSeries = toSeries(
+        ratios.items.filter((item) => item.purchase_to_sale_ratio != null),
+        (item) => item.purchase_to_sale_ratio as number
+      );
+      const latestRatio = ratioSeries[ratioSeries.length - 1] ?? null;
+      const averageRatio = describeValues(ratioSeries.map((point) => point.value))?.mean ?? null;
+
+      const ownershipSeries = [...ownership.items].sort((a, b) => a.date.localeCompare(b.date));
+      const firstOwnership = ownershipSeries[0];
+      const latestOwnership = ownershipSeries[ownershipSeries.length - 1];
+
+      const period = { start_date: months[0].date, end_date: months[months.length - 1].date };
+      const fresh = freshness(period.end_date, "monthly");
+
+      return {
+        text:
+          `Between ${period.start_date} and ${period.end_date} investors in ` +
+          `${describeMarket(resolution.market)} made ` +
+          `${acquisitions} acquisitions and ${dispositions} dispositions, a net ` +
+          `${netBuying >= 0 ? "buying" : "selling"} position of ${Math.abs(netBuying)} homes.` +
+          (latestRatio
+            ? ` The latest purchase-to-sale ratio is ${latestRatio.value} (${latestRatio.date})` +
+              `, averaging ${averageRatio} over the period.`
+            : "") +
+          (latestOwnership
+            ? ` Investors own ${latestOwnership.count} homes, ${latestOwnership.pct_ownership}% ` +
+              `of the housing stock (${latestOwnership.date}).`
+            : "") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.investorHousingEventCounts,
+            ENDPOINTS.investorPurchaseToSaleRatio,
+            ENDPOINTS.investorHousingStockOwnership
+          ),
+          ...fresh,
+          period,
+          acquisitions,
+          dispositions,
+          net_buying: netBuying,
+          purchase_to_sale_ratio: {
+            latest: latestRatio,
+            average: averageRatio,
+            series: ratioSeries,
+          },
+          ownership: latestOwnership
+            ? {
+                date: latestOwnership.date,
+                count: latestOwnership.count,
+                pct_ownership: latestOwnership.pct_ownership,
+                change_pct_points: latestOwnership.pct_ownership - firstOwnership.pct_ownership,
+              }
+            : null,
+          months,
+          cache: combineCacheInfo([events.cache, ratios.cache, ownership.cache]),
+        },
+        ui: table(
+          [
+            { key: "date", header: "Month", type: "text" },
+            { key: "acquisitions", header: "Acquisitions", type: "number" },
+            { key: "dispositions", header: "Dispositions", type: "number" },
+            { key: "net_buying", header: "Net Buying", type: "number" },
+          ],
+          months
+        ),
+      };
+    },
+    investorActivityOutput
+  ),
+};
+
+export const getParclPortfolioActivity: ToolConfig = {
+  id: "get-parcl-portfolio-activity",
+  name: "Get Parcl Portfolio Activity",
+  description:
+    "Breaks down single-family ownership, acquisitions, dispositions and new listings by portfolio size tier to show whether large operators are entering or exiting a market",
+  input: z
+    .object({
+      location: z.string().describe("The location to get portfolio operator activity for"),
+      ...marketFilterShape,
+      portfolio_sizes: z
+        .array(z.enum(PORTFOLIO_SIZES))
+        .min(1)
+        .default([...PORTFOLIO_SIZES])
+        .describe(
+          "Portfolio size tiers to report, e.g. PORTFOLIO_1000_PLUS; ALL_PORTFOLIOS is the total across tiers"
+        ),
+      start_date: isoDate
+        .optional()
+        .describe("Start of the reporting period (YYYY-MM-DD); defaults to twelve months ago"),
+      end_date: isoDate
+        .optional()
+        .describe("End of the reporting period (YYYY-MM-DD); defaults to the latest month"),
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .describe("Input parameters for the Parcl portfolio activity request"),
+  output: toolOutput(
+    portfolioActivityOutput,
+    "Portfolio operator activity by size tier for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { location, state_abbreviation, location_type, portfolio_sizes, start_date, end_date },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} requested portfolio activity for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const parcl_id = resolution.market.parcl_id;
+      const period = { parcl_id, start_date: start_date ?? isoDaysAgo(365), end_date };
+
+      const ownership = await fetchCachedPages(
+        "portfolio_housing_stock_ownership",
+        period,
+        (request) => parcl.portfolioHousingStockOwnership(request)
+      );
+      const ownershipSeries = [...ownership.items].sort((a, b) => a.date.localeCompare(b.date));
+      const firstOwnership = ownershipSeries[0];
+      const latestOwnership = ownershipSeries[ownershipSeries.length - 1];
+
+      const tiers = await Promise.all(
+        (portfolio_sizes as PortfolioSize[]).map(async (portfolio_size) => {
+          const latest = { parcl_id, portfolio_size, limit: 1 };
+          const [events, forSale, forRent] = await Promise.all([
+            fetchCachedPages(
+              "portfolio_housing_event_counts",
+              { ...period, portfolio_size },
+              (request) => parcl.portfolioHousingEventCounts(request)
+            ),
+            cached("portfolio_new_listings_for_sale", latest, () =>
+              parcl.portfolioNewListingsForSale(latest)
+            ),
+            cached("portfolio_new_listings_for_rent", latest, () =>
+              parcl.portfolioNewListingsForRent(latest)
+            ),
+          ]);
+
+          const key = portfolio_size.toLowerCase() as Lowercase<PortfolioSize>;
+          const acquisitions = events.items.reduce((sum, item) => sum + item.acquisitions, 0);
+          const dispositions = events.items.reduce((sum, item) => sum + item.dispositions, 0);
+          const netBuying = acquisitions - dispositions;
+          const latestShare = latestOwnership?.pct_sf_housing_stock[key] ?? null;
+          const firstShare = firstOwnership?.pct_sf_housing_stock[key] ?? null;
+
+          return {
+            portfolio_size,
+            homes_owned: latestOwnership?.count[key] ?? null,
+            pct_sf_housing_stock: latestShare,
+            share_change_pct_points:
+              latestShare != null && firstShare != null ? latestShare - firstShare : null,
+            acquisitions,
+            dispositions,
+            net_buying: netBuying,
+            new_listings_for_sale_30_day: forSale.data.items[0]?.count.rolling_30_day ?? null,
+            new_listings_for_rent_30_day: forRent.data.items[0]?.count.rolling_30_day ?? null,
+            direction: netBuying > 0 ? "entering" : netBuying < 0 ? "exiting" : "neutral",
+            cache: combineCacheInfo([events.cache, forSale.cache, forRent.cache]),
+          };
+        })
+      );
+
+      if (!latestOwnership && tiers.every((tier) => tier.acquisitions + tier.dispositions === 0)) {
+        throw new NoDataError("No portfolio activity data is available for this market");
+      }
+
+      const fresh = freshness(latestOwnership?.date, "monthly");
+
+      return {
+        text:
+          `Single-family portfolio activity in ${describeMarket(resolution.market)} since ` +
+          `${period.start_date}` +
+          (latestOwnership ? ` (ownership as of ${latestOwnership.date})` : "") +
+          ": " +
+          tiers
+            .map(
+              (tier) =>
+                `${tier.portfolio_size} owns ${tier.homes_owned ?? "n/a"} homes ` +
+                `(${tier.pct_sf_housing_stock ?? "n/a"}% of stock), bought ${tier.acquisitions}, ` +
+                `sold ${tier.dispositions} (${tier.direction})`
+            )
+            .join("; ") +
+          "." +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.portfolioHousingStockOwnership,
+            ENDPOINTS.portfolioHousingEventCounts,
+            ENDPOINTS.portfolioNewListingsForSale,
+            ENDPOINTS.portfolioNewListingsForRent
+          ),
+          ...fresh,
+          period: { start_date: period.start_date, end_date: end_date ?? null },
+          ownership_date: latestOwnership?.date ?? null,
+          tiers: tiers.map(({ cache, ...tier }) => tier),
+          cache: combineCacheInfo([ownership.cache, ...tiers.map((tier) => tier.cache)]),
+        },
+        ui: table(
+          [
+            { key: "portfolio_size", header: "Portfolio Size", type: "text" },
+            { key: "homes_owned", header: "Homes Owned", type: "number" },
+            { key: "pct_sf_housing_stock", header: "% of SF Stock", type: "number" },
+            { key: "acquisitions", header: "Acquisitions", type: "number" },
+            { key: "dispositions", header: "Dispositions", type: "number" },
+            { key: "net_buying", header: "Net Buying", type: "number" },
+            { key: "new_listings_for_sale_30_day", header: "For Sale (30d)", type: "number" },
+            { key: "new_listings_for_rent_30_day", header: "For Rent (30d)", type: "number" },
+            { key: "direction", header: "Direction", type: "text" },
+          ],
+          tiers.map(({ cache, ...tier }) => tier)
+        ),
+      };
+    },
+    portfolioActivityOutput
+  ),
+};
+
+export const searchParclProperties: ToolConfig = {
+  id: "search-properties",
+  name: "Search Parcl Properties",
+  description:
+    "Finds individual homes in a market or ZIP code by type, size, rooms, age, event history and current ownership",
+  input: z
+    .object({
+      location: z
+        .string()
+        .optional()
+        .describe("The market to search in, e.g. Austin, TX; required unless zip_code is given"),
+      zip_code: z
+        .string()
+        .regex(/^\d{5}$/, "ZIP codes must have five digits")
+        .optional()
+        .describe("Five-digit ZIP code to search in"),
+      ...marketFilterShape,
+      property_type: z.enum(SEARCH_PROPERTY_TYPES).describe("Type of property to search for"),
+      bedrooms_min: z.number().int().min(0).optional().describe("Minimum number of bedrooms"),
+      bedrooms_max: z.number().int().min(0).optional().describe("Maximum number of bedrooms"),
+      bathrooms_min: z.number().int().min(0).optional().describe("Minimum number of bathrooms"),
+      bathrooms_max: z.number().int().min(0).optional().describe("Maximum number of bathrooms"),
+      square_footage_min: z.number().int().min(0).optional().describe("Minimum square footage"),
+      square_footage_max: z.number().int().min(0).optional().describe("Maximum square footage"),
+      year_built_min: z.number().int().min(1700).optional().describe("Earliest year built"),
+      year_built_max: z.number().int().min(1700).optional().describe("Latest year built"),
+      event_history_sale_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes with (true) or without (false) a sale since 2010"),
+      event_history_rental_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes with (true) or without (false) a rental since 2010"),
+      event_history_listing_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes with (true) or without (false) a listing since 2010"),
+      current_owner_occupied_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes that are (true) or are not (false) owner-occupied"),
+      current_investor_owned_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes that are (true) or are not (false) investor-owned"),
+      current_new_construction_flag: z
+        .boolean()
+        .optional()
+        .describe("Only homes that are (true) or are not (false) new construction"),
+      current_entity_owner_name: z
+        .enum(ENTITY_OWNER_NAMES)
+        .optional()
+        .describe("Only homes owned by this large operator"),
+      limit: z.number().int().min(1).max(100).default(25).describe("Page size"),
+      offset: z.number().int().min(0).default(0).describe("Number of properties to skip"),
+    })
+    .describe("Input parameters for the Parcl property search request"),
+  output: toolOutput(searchPropertiesOutput, "A page of properties matching the search criteria"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(async (input, agentInfo) => {
+    const { location, zip_code, state_abbreviation, location_type, limit, offset, ...filters } =
+      input;
+    console.log(`Agent ${agentInfo.agentId} searched properties in ${zip_code ?? location}`);
+
+    if (!location && !zip_code) {
+      return errorResponse({
+        code: "VALIDATION_ERROR",
+        message: "Provide either a location or a zip_code to search in",
+        retryable: false,
+      });
+    }
+
+    const invertedRange = (["bedrooms", "bathrooms", "square_footage", "year_built"] as const).find(
+      (field) =>
+        filters[`${field}_min`] != null &&
+        filters[`${field}_max`] != null &&
+        filters[`${field}_min`] > filters[`${field}_max`]
+    );
+
+    if (invertedRange) {
+      return errorResponse({
+        code: "VALIDATION_ERROR",
+        message: `${invertedRange}_min must not be greater than ${invertedRange}_max`,
+        retryable: false,
+      });
+    }
+
+    const parcl = getParclClient();
+
+    const resolution = zip_code
+      ? await resolveMarket(zip_code, { location_type: "ZIP5" })
+      : await resolveMarket(location, { state_abbreviation, location_type });
+
+    if (resolution.status !== "resolved") {
+      return unresolvedMarketResponse(resolution);
+    }
+
+    const params = { parcl_id: resolution.market.parcl_id, ...filters };
+    const { data, cache } = await cached("property_search", params, () =>
+      parcl.searchProperties(params)
+    );
+
+    const matches = asList(data);
+    const properties = matches.slice(offset, offset + limit).map(summarizeProperty);
+    const nextOffset =
+      offset + properties.length < matches.length ? offset + properties.length : null;
+
+    return {
+      text:
+        properties.length > 0
+          ? `Found ${matches.length} properties in ${describeMarket(resolution.market)}; ` +
+            `showing ${offset + 1}-${offset + properties.length}: ` +
+            properties
+              .map((property) => `${formatAddress(property)} (id ${property.parcl_property_id})`)
+              .join("; ")
+          : `No properties in ${describeMarket(resolution.market)} matched the search criteria`,
+      data: {
+        ...marketMetadata(resolution.market, ENDPOINTS.searchProperties),
+        properties,
+        total: matches.length,
+        limit,
+        offset,
+        next_offset: nextOffset,
+        cache,
+      },
+      ui: table(
+        [
+          { key: "parcl_property_id", header: "Property ID", type: "number" },
+          { key: "address", header: "Address", type: "text" },
+          { key: "city", header: "City", type: "text" },
+          { key: "zip_code", header: "ZIP", type: "text" },
+          { key: "property_type", header: "Type", type: "text" },
+          { key: "bedrooms", header: "Beds", type: "number" },
+          { key: "bathrooms", header: "Baths", type: "number" },
+          { key: "square_footage", header: "Sq Ft", type: "number" },
+          { key: "year_built", header: "Built", type: "number" },
+        ],
+        properties
+      ),
+    };
+  }, searchPropertiesOutput),
+};
+
+export const lookupParclAddresses: ToolConfig = {
+  id: "lookup-addresses",
+  name: "Look Up Parcl Addresses",
+  description:
+    "Matches one or more free-form street addresses to Parcl properties and returns their parcl_property_id",
+  input: z
+    .object({
+      addresses: z
+        .array(z.string().min(1))
+        .min(1)
+        .max(MAX_ADDRESS_LOOKUPS)
+        .describe(
+          "Street addresses including city, state and ZIP, e.g. 123 Main St Apt 4, Austin, TX 78701"
+        ),
+    })
+    .describe("Input parameters for the Parcl address lookup request"),
+  output: toolOutput(
+    lookupAddressesOutput,
+    "Matched and unmatched addresses with their parcl_property_id"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(async ({ addresses }, agentInfo) => {
+    console.log(`Agent ${agentInfo.agentId} looked up ${addresses.length} addresses`);
+
+    const parsed = (addresses as string[]).map((input, index) => ({
+      input,
+      source_id: String(index),
+      result: parseAddress(input),
+    }));
+    const unparsed = parsed.flatMap(({ input, result }) =>
+      result.status === "parsed"
+        ? []
+        : [{ input, reason: `Could not parse the address: ${result.reason}` }]
+    );
+    const body = parsed.flatMap(({ source_id, result }) =>
+      result.status === "parsed" ? [{ ...result.query, source_id }] : []
+    );
+
+    let responses: { parcl_property_id: number | null; source_id: string | null }[] = [];
+    let cache = null;
+
+    if (body.length > 0) {
+      const parcl = getParclClient();
+
+      ({ data: responses, cache } = await cached("address_search", { body }, () =>
+        parcl.searchAddresses(body)
+      ));
+    }
+
+    const idsBySource = new Map(
+      responses.map((response) => [response.source_id, response.parcl_property_id])
+    );
+    const matched = [];
+    const unmatched = [...unparsed];
+
+    for (const { input, source_id, result } of parsed) {
+      if (result.status !== "parsed") {
+        continue;
+      }
+
+      const parclPropertyId = idsBySource.get(source_id);
+
+      if (parclPropertyId == null) {
+        unmatched.push({ input, reason: "No Parcl property matched this address" });
+        continue;
+      }
+
+      matched.push({
+        input,
+        parcl_property_id: parclPropertyId,
+        normalized_address: formatAddress(result.query),
+        match_confidence: result.inferred.length === 0 ? "high" : "medium",
+        inferred_fields: result.inferred,
+      });
+    }
+
+    return {
+      text:
+        `Matched ${matched.length} of ${addresses.length} addresses` +
+        (matched.length > 0
+          ? `: ${matched
+              .map((match) => `${match.input} -> parcl_property_id ${match.parcl_property_id}`)
+              .join("; ")}`
+          : "") +
+        (unmatched.length > 0
+          ? `. Unmatched: ${unmatched
+              .map((entry) => `${entry.input} (${entry.reason})`)
+              .join("; ")}`
+          : ""),
+      data: { sources: [ENDPOINTS.searchAddresses], matched, unmatched, cache },
+      ui: table(
+        [
+          { key: "input", header: "Address", type: "text" },
+          { key: "parcl_property_id", header: "Property ID", type: "number" },
+          { key: "match_confidence", header: "Confidence", type: "text" },
+        ],
+        [
+          ...matched,
+          ...unmatched.map((entry) => ({
+            input: entry.input,
+            parcl_property_id: null,
+            match_confidence: "unmatched",
+          })),
+        ]
+      ),
+    };
+  }, lookupAddressesOutput),
+};
+
+export const getParclPropertyHistory: ToolConfig = {
+  id: "get-property-history",
+  name: "Get Parcl Property History",
+  description:
+    "Returns the sale, listing and rental timeline of properties with last sale price, hold period, appreciation between sales and current listing status",
+  input: z
+    .object({
+      parcl_property_ids: z
+        .array(z.number().int())
+        .min(1)
+        .max(MAX_HISTORY_PROPERTIES)
+        .optional()
+        .describe("Parcl property ids to report on; required unless address is given"),
+      address: z
+        .string()
+        .optional()
+        .describe("Street address with city, state and ZIP to look up instead of an id"),
+      event_type: z
+        .enum(EVENT_TYPES)
+        .default("ALL")
+        .describe("Only include events of this type in the timeline"),
+      start_date: isoDate
+        .optional()
+        .describe("Only include events on or after this date (YYYY-MM-DD)"),
+      end_date: isoDate
+        .optional()
+        .describe("Only include events on or before this date (YYYY-MM-DD)"),
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .describe("Input parameters for the Parcl property history request"),
+  output: toolOutput(
+    propertyHistoryOutput,
+    "Event timelines and derived facts for the requested properties"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ parcl_property_ids, address, event_type, start_date, end_date }, agentInfo) => {
+      console.log(
+        `Agent ${agentInfo.agentId} requested property history for ${
+          address ?? parcl_property_ids?.join(", ")
+        }`
+      );
+
+      if (!address && !parcl_property_ids) {
+        return errorResponse({
+          code: "VALIDATION_ERROR",
+          message: "Provide either parcl_property_ids or an address",
+          retryable: false,
+        });
+      }
+
+      const parcl = getParclClient();
+
+      let propertyIds: number[] = parcl_property_ids ?? [];
+
+      if (address) {
+        const parsed = parseAddress(address);
+
+        if (parsed.status !== "parsed") {
+          return errorResponse({
+            code: "VALIDATION_ERROR",
+            message: `Could not parse the address: ${parsed.reason}`,
+            retryable: false,
+          });
+        }
+
+        const body = [{ ...parsed.query, source_id: "0" }];
+        const { data: matches } = await cached("address_search", { body }, () =>
+          parcl.searchAddresses(body)
+        );
+        const match = matches.find((entry) => entry.parcl_property_id != null);
+
+        if (!match) {
+          throw new NoDataError(`No Parcl property matched the address ${address}`);
+        }
+
+        propertyIds = [...propertyIds, match.parcl_property_id as number];
+      }
+
+      // The full history is always requested so that current status can be derived even when
+      // the timeline itself is filtered by type or date.
+      const body = { parcl_property_id: propertyIds.map(String), event_type: "ALL" as const };
+      const { data, cache } = await cached("property_event_history", body, () =>
+        parcl.propertyEventHistory(body)
+      );
+      const events = requireItems(asList(data), "property event").sort((a, b) =>
+        a.event_date.localeCompare(b.event_date)
+      );
+
+      const properties = propertyIds.map((parclPropertyId) => {
+        const history = events.filter((event) => event.parcl_property_id === parclPropertyId);
+        const timeline = history
+          .filter(
+            (event) =>
+              (event_type === "ALL" || event.event_type === event_type) &&
+              (!start_date || event.event_date >= start_date) &&
+              (!end_date || event.event_date <= end_date)
+          )
+          .map((event) => ({
+            date: event.event_date,
+            event_type: event.event_type,
+            event_name: event.event_name,
+            price: event.price ?? null,
+            investor_owned: flag(event.investor_flag),
+            owner_occupied: flag(event.owner_occupied_flag),
+            entity_owner_name: event.entity_owner_name ?? null,
+          }));
+
+        return {
+          parcl_property_id: parclPropertyId,
+          ...summarizePropertyHistory(history),
+          timeline,
+        };
+      });
+
+      return {
+        text: properties
+          .map(
+            (property) =>
+              `Property ${property.parcl_property_id}: ` +
+              (property.last_sale
+                ? `last sold for ${property.last_sale.price ?? "an undisclosed price"} on ` +
+                  `${property.last_sale.date} (held ${property.hold_period_days} days)`
+                : "no recorded sales") +
+              (property.appreciation.length > 0
+                ? `, ${property.appreciation[property.appreciation.length - 1].change_pct.toFixed(
+                    1
+                  )}% appreciation between its last two sales`
+                : "") +
+              `; listing status ${property.listing_status}, rental status ` +
+              `${property.rental_status}; ${property.timeline.length} matching events`
+          )
+          .join(". "),
+        data: {
+          sources: address
+            ? [ENDPOINTS.searchAddresses, ENDPOINTS.propertyEventHistory]
+            : [ENDPOINTS.propertyEventHistory],
+          properties,
+          cache,
+        },
+        ui: table(
+          [
+            { key: "parcl_property_id", header: "Property ID", type: "number" },
+            { key: "date", header: "Date", type: "text" },
+            { key: "event_type", header: "Type", type: "text" },
+            { key: "event_name", header: "Event", type: "text" },
+            { key: "price", header: "Price", type: "number" },
+          ],
+          properties.flatMap((property) =>
+            property.timeline.map((event) => ({
+              parcl_property_id: property.parcl_property_id,
+              ...event,
+            }))
+          )
+        ),
+      };
+    },
+    propertyHistoryOutput
+  ),
+};
+
+export const getParclMarketSnapshot: ToolConfig = {
+  id: "get-market-snapshot",
+  name: "Get Parcl Market Snapshot",
+  description:
+    "Fetches price, rent, volatility, for-sale inventory, housing stock, all-cash share and gross yield for a location in a single call",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the market snapshot for"),
+      ...marketFilterShape,
+    })
+    .describe("Input parameters for the Parcl market snapshot request"),
+  output: toolOutput(
+    marketSnapshotOutput,
+    "Latest value of each market metric for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(async ({ location, state_abbreviation, location_type }, agentInfo) => {
+    console.log(`Agent ${agentInfo.agentId} requested market snapshot for ${location}`);
+    const parcl = getParclClient();
+
+    const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+    if (resolution.status !== "resolved") {
+      return unresolvedMarketResponse(resolution);
+    }
+
+    const params = { parcl_id: resolution.market.parcl_id };
+    const caches: CacheInfo[] = [];
+    const load = async <T>(endpoint: string, fetch: () => Promise<T>) => {
+      const { data, cache } = await cached(endpoint, params, fetch);
+      caches.push(cache);
+      return data;
+    };
+
+    const [price, rent, volatility, inventory, housingStock, allCash, grossYield] =
+      await Promise.all([
+        snapshotSection("daily", async () => {
+          const data = await load("price_feed", () => parcl.priceFeed(params));
+          const item = latestItem(requireItems(data.items, "price feed"));
+          return { price_per_sqft: item.price_feed, date: item.date };
+        }),
+        snapshotSection("daily", async () => {
+          const data = await load("rental_price_feed", () => parcl.rentalPriceFeed(params));
+          const item = latestItem(requireItems(data.items, "rental price feed"));
+          return { rent_per_sqft: item.rental_price_feed, date: item.date };
+        }),
+        snapshotSection("daily", async () => {
+          const data = await load("volatility", () => parcl.volatility(params));
+          const item = latestItem(requireItems(data.items, "volatility"));
+          return { pct_volatility: item.pct_volatility, date: item.date };
+        }),
+        snapshotSection("weekly", async () => {
+          const data = await load("for_sale_inventory", () => parcl.forSaleInventory(params));
+          const item = latestItem(requireItems(data.items, "for-sale inventory"));
+          return { for_sale_inventory: item.for_sale_inventory, date: item.date };
+        }),
+        snapshotSection("monthly", async () => {
+          const data = await load("housing_stock", () => parcl.housingStock(params));
+          const item = latestItem(requireItems(data.items, "housing stock"));
+          return {
+            all_properties: item.all_properties,
+            single_family: item.single_family ?? null,
+            condo: item.condo ?? null,
+            townhouse: item.townhouse ?? null,
+            other: item.other ?? null,
+            date: item.date,
+          };
+        }),
+        snapshotSection("monthly", async () => {
+          const data = await load("all_cash", () => parcl.allCash(params));
+          const item = latestItem(requireItems(data.items, "all-cash"));
+          return { pct_all_cash: item.pct_all_cash, count: item.count, date: item.date };
+        }),
+        snapshotSection("monthly", async () => {
+          const data = await load("gross_yield", () => parcl.grossYield(params));
+          const item = latestItem(
+            requireItems(
+              data.items.filter((entry) => entry.pct_gross_yield != null),
+              "gross yield"
+            )
+          );
+          return { pct_gross_yield: item.pct_gross_yield as number, date: item.date };
+        }),
+      ]);
+
+    const sections = {
+      price,
+      rent,
+      volatility,
+      for_sale_inventory: inventory,
+      housing_stock: housingStock,
+      all_cash: allCash,
+      gross_yield: grossYield,
+    };
+    const lines = [
+      snapshotLine("Price per sq ft", price, (value) => `$${value.price_per_sqft}`),
+      snapshotLine("Rent per sq ft", rent, (value) => `$${value.rent_per_sqft}`),
+      snapshotLine("Volatility", volatility, (value) => `${value.pct_volatility}%`),
+      snapshotLine("For-sale inventory", inventory, (value) => `${value.for_sale_inventory} homes`),
+      snapshotLine("Housing stock", housingStock, (value) => `${value.all_properties} properties`),
+      snapshotLine("All-cash sales", allCash, (value) => `${value.pct_all_cash}% of sales`),
+      snapshotLine("Gross yield", grossYield, (value) => `${value.pct_gross_yield}%`),
+    ];
+    const failed = Object.entries(sections).flatMap(([key, section]) =>
+      section.status === "error" ? [{ key, error: section.error }] : []
+    );
+    const stale = Object.entries(sections).flatMap(([key, section]) =>
+      section.status === "ok" && section.stale ? [key] : []
+    );
+
+    if (failed.length === lines.length) {
+      return errorResponse(failed[0].error);
+    }
+
+    const market = describeMarket(resolution.market);
+
+    return {
+      text:
+        `Market snapshot for ${market}: ${lines.join("; ")}` +
+        (failed.length > 0 ? `. ${failed.length} of ${lines.length} metrics failed to load` : "") +
+        (stale.length > 0 ? `. Stale data: ${stale.join(", ")}` : ""),
+      data: {
+        ...marketMetadata(
+          resolution.market,
+          ENDPOINTS.priceFeed,
+          ENDPOINTS.rentalPriceFeed,
+          ENDPOINTS.volatility,
+          ENDPOINTS.forSaleInventory,
+          ENDPOINTS.housingStock,
+          ENDPOINTS.allCash,
+          ENDPOINTS.grossYield
+        ),
+        ...sections,
+        failed: failed.map(({ key }) => key),
+        stale,
+        cache: caches.length > 0 ? combineCacheInfo(caches) : null,
+      },
+      ui: card(`Market Snapshot: ${market}`, lines),
+    };
+  }, marketSnapshotOutput),
+};
+
+export const getParclMarketActivity: ToolConfig = {
+  id: "get-market-activity",
+  name: "Get Parcl Market Activity",
+  description:
+    "Reports monthly sales, new listings and new rentals with median sale, list and rent prices, median home size and age, absorption and the median sale price trend for a location",
+  input: z
+    .object({
+      location: z.string().describe("The location to get market activity for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to report activity for"),
+      start_date: isoDate
+        .optional()
+        .describe("Start of the reporting period (YYYY-MM-DD); defaults to twelve months ago"),
+      end_date: isoDate
+        .optional()
+        .describe("End of the reporting period (YYYY-MM-DD); defaults to the latest month"),
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .describe("Input parameters for the Parcl market activity request"),
+  output: toolOutput(marketActivityOutput, "Monthly market activity for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { location, state_abbreviation, location_type, property_type, start_date, end_date },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} requested market activity for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const params = {
+        parcl_id: resolution.market.parcl_id,
+        property_type,
+        start_date: start_date ?? isoDaysAgo(365),
+        end_date,
+      };
+
+      const [counts, prices, attributes] = await Promise.all([
+        fetchCachedPages("housing_event_counts", params, (request) =>
+          parcl.housingEventCounts(request)
+        ),
+        fetchCachedPages("housing_event_prices", params, (request) =>
+          parcl.housingEventPrices(request)
+        ),
+        fetchCachedPages("housing_event_property_attributes", params, (request) =>
+          parcl.housingEventPropertyAttributes(request)
+        ),
+      ]);
+
+      const pricesByMonth = new Map(prices.items.map((item) => [item.date, item]));
+      const attributesByMonth = new Map(attributes.items.map((item) => [item.date, item]));
+
+      const months = [...requireItems(counts.items, "housing event")]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((item) => {
+          const price = pricesByMonth.get(item.date);
+          const attribute = attributesByMonth.get(item.date);
+
+          return {
+            date: item.date,
+            sales: item.sales,
+            new_listings_for_sale: item.new_listings_for_sale,
+            new_rental_listings: item.new_rental_listings,
+            absorption_ratio:
+              item.new_listings_for_sale > 0 ? item.sales / item.new_listings_for_sale : null,
+            median_sale_price: price?.price?.median?.sales ?? null,
+            median_list_price: price?.price?.median?.new_listings_for_sale ?? null,
+            median_rent: price?.price?.median?.new_rental_listings ?? null,
+            median_sale_price_per_sqft: price?.price_per_square_foot?.median?.sales ?? null,
+            median_square_footage: attribute?.square_footage?.median?.sales ?? null,
+            median_property_age: attribute?.property_age?.median?.sales ?? null,
+          };
+        });
+
+      const totals = {
+        sales: months.reduce((sum, month) => sum + month.sales, 0),
+        new_listings_for_sale: months.reduce((sum, month) => sum + month.new_listings_for_sale, 0),
+        new_rental_listings: months.reduce((sum, month) => sum + month.new_rental_listings, 0),
+      };
+      const absorption = {
+        latest: months[months.length - 1].absorption_ratio,
+        period:
+          totals.new_listings_for_sale > 0 ? totals.sales / totals.new_listings_for_sale : null,
+      };
+      const medianPriceTrend = seriesTrend(
+        toSeries(
+          months.filter((month) => month.median_sale_price != null),
+          (month) => month.median_sale_price as number
+        )
+      );
+
+      const period = { start_date: months[0].date, end_date: months[months.length - 1].date };
+      const latest = months[months.length - 1];
+      const fresh = freshness(period.end_date, "monthly");
+
+      return {
+        text:
+          `Between ${period.start_date} and ${period.end_date}, ` +
+          `${describeMarket(resolution.market)} (${property_type}) recorded ${totals.sales} ` +
+          `sales against ${totals.new_listings_for_sale} new listings for sale (absorption ratio ` +
+          `${formatValue(absorption.period)}) and ${totals.new_rental_listings} new rental ` +
+          `listings.` +
+          (medianPriceTrend
+            ? ` The median sale price went from ${medianPriceTrend.start.value} ` +
+              `(${medianPriceTrend.start.date}) to ${medianPriceTrend.end.value} ` +
+              `(${medianPriceTrend.end.date}), ${formatPct(medianPriceTrend.change_pct)} ` +
+              `(${medianPriceTrend.direction}).`
+            : " No median sale prices are available for the period.") +
+          ` In ${latest.date} the median list price was ${formatValue(
+            latest.median_list_price
+          )}, ` +
+          `the median rent ${formatValue(latest.median_rent)}, and homes sold had a median of ` +
+          `${formatValue(latest.median_square_footage)} sq ft and were ` +
+          `${formatValue(latest.median_property_age)} years old.` +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.housingEventCounts,
+            ENDPOINTS.housingEventPrices,
+            ENDPOINTS.housingEventPropertyAttributes
+          ),
+          ...fresh,
+          property_type,
+          period,
+          totals,
+          absorption,
+          median_sale_price_trend: medianPriceTrend,
+          months,
+          cache: combineCacheInfo([counts.cache, prices.cache, attributes.cache]),
+        },
+        ui: table(
+          [
+            { key: "date", header: "Month", type: "text" },
+            { key: "sales", header: "Sales", type: "number" },
+            { key: "new_listings_for_sale", header: "New Listings", type: "number" },
+            { key: "new_rental_listings", header: "New Rentals", type: "number" },
+            { key: "absorption_ratio", header: "Absorption", type: "number" },
+            { key: "median_sale_price", header: "Median Sale", type: "number" },
+            { key: "median_list_price", header: "Median List", type: "number" },
+            { key: "median_rent", header: "Median Rent", type: "number" },
+            { key: "median_square_footage", header: "Median Sq Ft", type: "number" },
+            { key: "median_property_age", header: "Median Age", type: "number" },
+          ],
+          months.map((month) => ({
+            ...month,
+            absorption_ratio:
+              month.absorption_ratio == null ? null : Number(month.absorption_ratio.toFixed(2)),
+          }))
+        ),
+      };
+    },
+    marketActivityOutput
+  ),
+};
+
+export const getParclHousingStock: ToolConfig = {
+  id: "get-housing-stock",
+  name: "Get Parcl Housing Stock and All-Cash Share",
+  description:
+    "Reports the total housing units of a location by property type and the monthly share of sales paid all-cash",
+  input: z
+    .object({
+      location: z.string().describe("The location to get the housing stock and all-cash share for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to report the all-cash share for"),
+      months: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_ALL_CASH_HISTORY_MONTHS)
+        .default(12)
+        .describe("Number of trailing months of all-cash history to return"),
+    })
+    .describe("Input parameters for the Parcl housing stock request"),
+  output: toolOutput(
+    housingStockOutput,
+    "Housing stock and all-cash share for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, property_type, months }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested housing stock for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const stockParams = { parcl_id: resolution.market.parcl_id };
+      const cashParams = { parcl_id: resolution.market.parcl_id, property_type, limit: months };
+
+      const [stock, cash] = await Promise.all([
+        cached("housing_stock", stockParams, () => parcl.housingStock(stockParams)),
+        cached("all_cash", cashParams, () => parcl.allCash(cashParams)),
+      ]);
+
+      const latestStock = latestItem(requireItems(stock.data.items, "housing stock"));
+      const units = HOUSING_STOCK_TYPES.map((type) => ({
+        property_type: type,
+        units: latestStock[type] ?? null,
+        pct_of_stock:
+          latestStock[type] != null && latestStock.all_properties > 0
+            ? (latestStock[type] / latestStock.all_properties) * 100
+            : null,
+      }));
+
+      const history = [...requireItems(cash.data.items, "all-cash")]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((item) => ({ date: item.date, pct_all_cash: item.pct_all_cash, count: item.count }));
+      const latest = history[history.length - 1];
+      const first = history[0];
+      const change = history.length > 1 ? latest.pct_all_cash - first.pct_all_cash : null;
+      // Housing stock counts are annual and dated the first day of their year, so only the
+      // monthly all-cash share is judged for staleness.
+      const fresh = freshness(latest.date, "monthly");
+
+      return {
+        text:
+          `${describeMarket(resolution.market)} has ${formatValue(latestStock.all_properties)} ` +
+          `housing units as of ${latestStock.date}: ` +
+          units
+            .filter((entry) => entry.units != null)
+            .map(
+              (entry) =>
+                `${formatValue(entry.units)} ${entry.property_type.replace("_", " ")} ` +
+                `(${formatValue(entry.pct_of_stock)}%)`
+            )
+            .join(", ") +
+          `. In ${latest.date}, ${latest.pct_all_cash}% of ${property_type} sales ` +
+          `(${formatValue(latest.count)} transactions) were paid all-cash` +
+          (change != null
+            ? `, ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(2)} percentage ` +
+              `points from ${first.pct_all_cash}% in ${first.date}.`
+            : ".") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(resolution.market, ENDPOINTS.housingStock, ENDPOINTS.allCash),
+          ...fresh,
+          housing_stock: {
+            date: latestStock.date,
+            all_properties: latestStock.all_properties,
+            by_property_type: units,
+          },
+          all_cash: {
+            property_type,
+            latest,
+            change_pct_points: change,
+            average_pct: history.reduce((sum, item) => sum + item.pct_all_cash, 0) / history.length,
+            history,
+          },
+          cache: combineCacheInfo([stock.cache, cash.cache]),
+        },
+        ui: lineChart({
+          title: `All-Cash Share of Sales: ${describeMarket(resolution.market)}`,
+          description:
+            `${formatValue(latestStock.all_properties)} housing units as of ${latestStock.date}` +
+            (fresh.stale ? "; the latest all-cash share may be stale" : ""),
+          series: toSeries(history, (item) => item.pct_all_cash),
+        }),
+      };
+    },
+    housingStockOutput
+  ),
+};
+
+export const getParclSaleInventoryAnalysis: ToolConfig = {
+  id: "get-sale-inventory-analysis",
+  name: "Get Parcl Sale Inventory Analysis",
+  description:
+    "Analyzes a location's for-sale inventory trend, share of listings with price cuts, median cut size and rolling new-listing velocity to judge whether the market is softening",
+  input: z
+    .object({
+      location: z.string().describe("The location to analyze the for-sale inventory for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to analyze"),
+      weeks: z
+        .number()
+        .int()
+        .min(2)
+        .max(MAX_INVENTORY_HISTORY_WEEKS)
+        .default(12)
+        .describe("Number of trailing weekly observations to compute the inventory trend over"),
+    })
+    .describe("Input parameters for the Parcl sale inventory analysis request"),
+  output: toolOutput(
+    saleInventoryAnalysisOutput,
+    "For-sale inventory, price cut and new listing analysis for the requested location"
+  ),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, property_type, weeks }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested sale inventory analysis for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const params = { parcl_id: resolution.market.parcl_id, property_type, limit: weeks };
+      const latestParams = { parcl_id: resolution.market.parcl_id, property_type, limit: 1 };
+
+      const [inventory, priceChanges, newListings] = await Promise.all([
+        cached("for_sale_inventory", params, () => parcl.forSaleInventory(params)),
+        cached("for_sale_inventory_price_changes", latestParams, () =>
+          parcl.forSaleInventoryPriceChanges(latestParams)
+        ),
+        cached("new_listings_rolling_counts", latestParams, () =>
+          parcl.newListingsRollingCounts(latestParams)
+        ),
+      ]);
+
+      const history = toSeries(
+        requireItems(inventory.data.items, "for-sale inventory"),
+        (item) => item.for_sale_inventory
+      );
+      const latest = history[history.length - 1];
+      const trend = seriesTrend(history);
+
+      const cuts = priceChanges.data.items.length > 0 ? latestItem(priceChanges.data.items) : null;
+      const inventoryAtCuts = cuts ? pointOnOrBefore(history, cuts.date) ?? latest : null;
+      const priceCuts = cuts && {
+        date: cuts.date,
+        count_price_change: cuts.count_price_change,
+        count_price_drop: cuts.count_price_drop,
+        pct_inventory_price_change: cuts.pct_inventory_price_change ?? null,
+        pct_inventory_price_drop:
+          inventoryAtCuts.value > 0 ? (cuts.count_price_drop / inventoryAtCuts.value) * 100 : null,
+        median_price_change: cuts.median_price_change ?? null,
+        median_pct_price_change: cuts.median_pct_price_change ?? null,
+        median_days_bt_change: cuts.median_days_bt_change ?? null,
+      };
+
+      const counts = newListings.data.items.length > 0 ? latestItem(newListings.data.items) : null;
+      const weeklyPace7 = counts?.rolling_7_day ?? null;
+      const weeklyPace90 = counts?.rolling_90_day == null ? null : (counts.rolling_90_day / 90) * 7;
+      const listings = counts && {
+        date: counts.date,
+        rolling_7_day: counts.rolling_7_day ?? null,
+        rolling_30_day: counts.rolling_30_day ?? null,
+        rolling_60_day: counts.rolling_60_day ?? null,
+        rolling_90_day: counts.rolling_90_day ?? null,
+        weekly_pace_7_day: weeklyPace7,
+        weekly_pace_90_day: weeklyPace90,
+        velocity: listingVelocity(weeklyPace7, weeklyPace90),
+      };
+
+      const signals = [
+        ...(trend?.direction === "rising" ? ["for-sale inventory is rising"] : []),
+        ...(priceCuts?.pct_inventory_price_drop != null &&
+        priceCuts.pct_inventory_price_drop > PRICE_CUT_SOFTENING_PCT
+          ? [`more than ${PRICE_CUT_SOFTENING_PCT}% of listings have had a price cut`]
+          : []),
+        ...(listings?.velocity === "slowing" ? ["new listings are slowing"] : []),
+      ];
+      const fresh = freshness(latest.date, "weekly");
+
+      return {
+        text:
+          `For-sale inventory in ${describeMarket(resolution.market)} (${property_type}) was ` +
+          `${formatValue(latest.value)} homes as of ${latest.date}` +
+          (trend && history.length > 1
+            ? `, ${trend.direction} ${formatPct(trend.change_pct)} since ${trend.start.date}.`
+            : ".") +
+          (priceCuts
+            ? ` As of ${priceCuts.date}, ${formatValue(priceCuts.count_price_drop)} listings ` +
+              `(${formatValue(priceCuts.pct_inventory_price_drop)}% of inventory) had a price ` +
+              `cut; the median price change was ${formatValue(priceCuts.median_price_change)} ` +
+              `USD (${formatValue(priceCuts.median_pct_price_change)}%).`
+            : " No price change data is available.") +
+          (listings
+            ? ` ${formatValue(listings.rolling_7_day)} homes were newly listed in the 7 days to ` +
+              `${listings.date} against a 90-day average of ` +
+              `${formatValue(listings.weekly_pace_90_day)} per week (${listings.velocity}).`
+            : " No new listing counts are available.") +
+          (signals.length > 0
+            ? ` Softening signals: ${signals.join("; ")}.`
+            : " No softening signals were found.") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.forSaleInventory,
+            ENDPOINTS.forSaleInventoryPriceChanges,
+            ENDPOINTS.newListingsRollingCounts
+          ),
+          ...fresh,
+          property_type,
+          inventory: { latest, trend, history },
+          price_cuts: priceCuts,
+          new_listings: listings,
+          softening_signals: signals,
+          cache: combineCacheInfo([inventory.cache, priceChanges.cache, newListings.cache]),
+        },
+        ui: metricCard({
+          title: `For-Sale Inventory Analysis: ${describeMarket(resolution.market)}`,
+          value: latest.value,
+          unit: HOMES_UNIT,
+          date: latest.date,
+          stale: fresh.stale,
+          changes: trend
+            ? [{ label: `since ${trend.start.date}`, change_pct: trend.change_pct }]
+            : [],
+          details: [
+            `Price cuts: ${formatValue(priceCuts?.pct_inventory_price_drop)}% of listings, ` +
+              `median change ${formatValue(priceCuts?.median_pct_price_change)}%`,
+            `New listings: ${formatValue(listings?.rolling_7_day)} in 7 days ` +
+              `(${listings?.velocity ?? "unknown"})`,
+            signals.length > 0 ? `Softening: ${signals.join("; ")}` : "No softening signals",
+          ],
+        }),
+      };
+    },
+    saleInventoryAnalysisOutput
+  ),
+};
+
+export const getParclRentalSupply: ToolConfig = {
+  id: "get-rental-supply",
+  name: "Get Parcl Rental Supply",
+  description:
+    "Reports rolling counts of new rental listings and the share of housing units that are rentals for a location over time, compared with the same period last year",
+  input: z
+    .object({
+      location: z.string().describe("The location to get rental supply for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to report rental supply for"),
+      months: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_RENTAL_SUPPLY_HISTORY_MONTHS)
+        .default(12)
+        .describe("Number of trailing months of history to return"),
+    })
+    .describe("Input parameters for the Parcl rental supply request"),
+  output: toolOutput(rentalSupplyOutput, "Rental supply for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async ({ location, state_abbreviation, location_type, property_type, months }, agentInfo) => {
+      console.log(`Agent ${agentInfo.agentId} requested rental supply for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      // One extra year is fetched so the latest observation has a year-ago comparison. Rental
+      // listing counts are weekly and the concentration is monthly.
+      const weeks = Math.ceil((months * 52) / 12);
+      const listingParams = {
+        parcl_id: resolution.market.parcl_id,
+        property_type,
+        limit: weeks + 53,
+      };
+      const concentrationParams = {
+        parcl_id: resolution.market.parcl_id,
+        property_type,
+        limit: months + 12,
+      };
+
+      const [listingData, concentrationData] = await Promise.all([
+        cached("new_listings_for_rent_rolling_counts", listingParams, () =>
+          parcl.newListingsForRent(listingParams)
+        ),
+        cached("rental_units_concentration", concentrationParams, () =>
+          parcl.rentalUnitsConcentration(concentrationParams)
+        ),
+      ]);
+
+      const listings = [...requireItems(listingData.data.items, "new rental listing")]
+        .map(rollingCounts)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const latestListings = listings[listings.length - 1];
+      // Listing counts are indexed on Mondays, so the same week last year is 52 weeks back.
+      const yearAgoListings = baselinePoint(listings, 52 * 7);
+      const yoyChangePct =
+        yearAgoListings &&
+        (Object.fromEntries(
+          ROLLING_WINDOWS.map((window) => {
+            const before = yearAgoListings[window];
+            const after = latestListings[window];
+            return [
+              window,
+              before != null && after != null && before !== 0
+                ? ((after - before) / before) * 100
+                : null,
+            ];
+          })
+        ) as Record<(typeof ROLLING_WINDOWS)[number], number | null>);
+
+      const concentration = [...requireItems(concentrationData.data.items, "rental concentration")]
+        .map((item) => ({
+          date: item.date,
+          rental_units: item.rental_units,
+          total_units: item.total_units,
+          pct_rental_concentration: item.pct_rental_concentration,
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const latestConcentration = concentration[concentration.length - 1];
+      const yearAgoConcentration = baselinePoint(concentration, 365);
+      const concentrationChange = yearAgoConcentration
+        ? latestConcentration.pct_rental_concentration -
+          yearAgoConcentration.pct_rental_concentration
+        : null;
+
+      const listingsFresh = freshness(latestListings.date, "weekly");
+      const concentrationFresh = freshness(latestConcentration.date, "monthly");
+      // The report is only as fresh as the older of its two sections.
+      const [oldest] = [listingsFresh, concentrationFresh].sort((a, b) =>
+        a.as_of.localeCompare(b.as_of)
+      );
+      const fresh = { ...oldest, stale: listingsFresh.stale || concentrationFresh.stale };
+
+      return {
+        text:
+          `In the 30 days to ${latestListings.date}, ${formatValue(
+            latestListings.rolling_30_day
+          )} ` +
+          `${property_type} homes were newly listed for rent in ` +
+          `${describeMarket(resolution.market)}` +
+          (yoyChangePct
+            ? `, ${formatPct(yoyChangePct.rolling_30_day)} from the same period a year earlier ` +
+              `(${formatValue(yearAgoListings.rolling_30_day)} to ${yearAgoListings.date}).`
+            : "; no listing counts from a year earlier are available for comparison.") +
+          ` As of ${latestConcentration.date}, ` +
+          `${formatValue(latestConcentration.rental_units)} of ` +
+          `${formatValue(latestConcentration.total_units)} housing units ` +
+          `(${latestConcentration.pct_rental_concentration}%) were rentals` +
+          (yearAgoConcentration && concentrationChange != null
+            ? `, ${concentrationChange >= 0 ? "up" : "down"} ` +
+              `${Math.abs(concentrationChange).toFixed(2)} percentage points from ` +
+              `${yearAgoConcentration.pct_rental_concentration}% on ${yearAgoConcentration.date}.`
+            : ".") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.newListingsForRent,
+            ENDPOINTS.rentalUnitsConcentration
+          ),
+          ...fresh,
+          property_type,
+          new_rental_listings: {
+            ...listingsFresh,
+            latest: latestListings,
+            year_ago: yearAgoListings,
+            yoy_change_pct: yoyChangePct,
+            history: listings.slice(-weeks),
+          },
+          rental_concentration: {
+            ...concentrationFresh,
+            latest: latestConcentration,
+            year_ago: yearAgoConcentration,
+            change_pct_points: concentrationChange,
+            history: concentration.slice(-months),
+          },
+          cache: combineCacheInfo([listingData.cache, concentrationData.cache]),
+        },
+        ui: metricCard({
+          title: `New Rental Listings (30 days): ${describeMarket(resolution.market)}`,
+          value: latestListings.rolling_30_day,
+          unit: HOMES_UNIT,
+          date: latestListings.date,
+          stale: fresh.stale,
+          changes: yoyChangePct
+            ? ROLLING_WINDOWS.map((window) => ({
+                label: `${window.replace("rolling_", "").replace("_day", "d")} YoY`,
+                change_pct: yoyChangePct[window],
+              }))
+            : [],
+          details: [
+            `Rental concentration: ${latestConcentration.pct_rental_concentration}% of units ` +
+              `as of ${latestConcentration.date}` +
+              (concentrationChange != null
+                ? ` (${concentrationChange >= 0 ? "+" : ""}${concentrationChange.toFixed(
+                    2
+                  )} pts YoY)`
+                : ""),
+          ],
+        }),
+      };
+    },
+    rentalSupplyOutput
+  ),
+};
+
+export const getParclNewConstruction: ToolConfig = {
+  id: "get-new-construction",
+  name: "Get Parcl New Construction Metrics",
+  description:
+    "Reports monthly new-construction sales, new listings and median prices for a location with the new-construction price premium over the market median sale price",
+  input: z
+    .object({
+      location: z.string().describe("The location to get new-construction metrics for"),
+      ...marketFilterShape,
+      property_type: z
+        .enum(PROPERTY_TYPES)
+        .default("ALL_PROPERTIES")
+        .describe("Property type to report new-construction metrics for"),
+      start_date: isoDate
+        .optional()
+        .describe("Start of the reporting period (YYYY-MM-DD); defaults to twelve months ago"),
+      end_date: isoDate
+        .optional()
+        .describe("End of the reporting period (YYYY-MM-DD); defaults to the latest month"),
+    })
+    .refine(isOrderedDateRange, DATE_RANGE_ORDER_ERROR)
+    .describe("Input parameters for the Parcl new construction request"),
+  output: toolOutput(newConstructionOutput, "New-construction metrics for the requested location"),
+  pricing: { pricePerUse: 0.01, currency: "USD" },
+  handler: withErrorHandling(
+    async (
+      { location, state_abbreviation, location_type, property_type, start_date, end_date },
+      agentInfo
+    ) => {
+      console.log(`Agent ${agentInfo.agentId} requested new construction metrics for ${location}`);
+      const parcl = getParclClient();
+
+      const resolution = await resolveMarket(location, { state_abbreviation, location_type });
+
+      if (resolution.status !== "resolved") {
+        return unresolvedMarketResponse(resolution);
+      }
+
+      const params = {
+        parcl_id: resolution.market.parcl_id,
+        property_type,
+        start_date: start_date ?? isoDaysAgo(365),
+        end_date,
+      };
+
+      const [counts, prices, marketPrices] = await Promise.all([
+        fetchCachedPages("new_construction_housing_event_counts", params, (request) =>
+          parcl.newConstructionHousingEventCounts(request)
+        ),
+        fetchCachedPages("new_construction_housing_event_prices", params, (request) =>
+          parcl.newConstructionHousingEventPrices(request)
+        ),
+        fetchCachedPages("housing_event_prices", params, (request) =>
+          parcl.housingEventPrices(request)
+        ),
+      ]);
+
+      const pricesByMonth = new Map(prices.items.map((item) => [item.date, item]));
+      const marketPricesByMonth = new Map(marketPrices.items.map((item) => [item.date, item]));
+
+      const months = [...requireItems(counts.items, "new construction")]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((item) => {
+          const salePrice = pricesByMonth.get(item.date)?.price?.median?.sales ?? null;
+          const marketSalePrice = marketPricesByMonth.get(item.date)?.price?.median?.sales ?? null;
+
+          return {
+            date: item.date,
+            sales: item.sales ?? null,
+            new_listings_for_sale: item.new_listings_for_sale ?? null,
+            median_sale_price: salePrice,
+            median_list_price:
+              pricesByMonth.get(item.date)?.price?.median?.new_listings_for_sale ?? null,
+            market_median_sale_price: marketSalePrice,
+            price_premium_pct:
+              salePrice != null && marketSalePrice
+                ? ((salePrice - marketSalePrice) / marketSalePrice) * 100
+                : null,
+          };
+        });
+
+      const totals = {
+        sales: months.reduce((sum, month) => sum + (month.sales ?? 0), 0),
+        new_listings_for_sale: months.reduce(
+          (sum, month) => sum + (month.new_listings_for_sale ?? 0),
+          0
+        ),
+      };
+      const premiums = months
+        .map((month) => month.price_premium_pct)
+        .filter((premium) => premium != null);
+      const premium = {
+        latest: months[months.length - 1].price_premium_pct,
+        average:
+          premiums.length > 0
+            ? premiums.reduce((sum, value) => sum + value, 0) / premiums.length
+            : null,
+      };
+
+      const period = { start_date: months[0].date, end_date: months[months.length - 1].date };
+      const latest = months[months.length - 1];
+      const fresh = freshness(period.end_date, "monthly");
+
+      return {
+        text:
+          `Between ${period.start_date} and ${period.end_date}, ` +
+          `${describeMarket(resolution.market)} (${property_type}) recorded ` +
+          `${formatValue(totals.sales)} new-construction sales and ` +
+          `${formatValue(totals.new_listings_for_sale)} new-construction listings for sale.` +
+          ` In ${latest.date} the new-construction median sale price was ` +
+          `${formatValue(latest.median_sale_price)} USD against a market median of ` +
+          `${formatValue(latest.market_median_sale_price)} USD` +
+          (premium.latest != null ? `, a premium of ${formatPct(premium.latest)}.` : ".") +
+          (premium.average != null
+            ? ` The average monthly premium over the period was ${formatPct(premium.average)}.`
+            : "") +
+          staleNote(fresh),
+        data: {
+          ...marketMetadata(
+            resolution.market,
+            ENDPOINTS.newConstructionHousingEventCounts,
+            ENDPOINTS.newConstructionHousingEventPrices,
+            ENDPOINTS.housingEventPrices
+          ),
+          ...fresh,
+          property_type,
+          period,
+          totals,
+          price_premium_pct: premium,
+          months,
+          cache: combineCacheInfo([counts.cache, prices.cache, marketPrices.cache]),
+        },
+        ui: table(
+          [
+            { key: "date", header: "Month", type: "text" },
+            { key: "sales", header: "New Construction Sales", type: "number" },
+            { key: "new_listings_for_sale", header: "New Listings", type: "number" },
+            { key: "median_sale_price", header: "Median Sale", type: "number" },
+            { key: "market_median_sale_price", header: "Market Median Sale", type: "number" },
+            { key: "price_premium_pct", header: "Premium %", type: "number" },
+          ],
+          months.map((month) => ({
+            ...month,
+            price_premium_pct:
+              month.price_premium_pct == null ? null : Number(month.price_premium_pct.toFixed(2)),
+          }))
+        ),
+      };
+    },
+    newConstructionOutput
+  ),
+};
+
+export const tools: ToolConfig[] = [
+  getParclPriceFeed,
+  getParclRentalPriceFeed,
+  getParclVolatilityFeed,
+  getParclSaleInventoryFeed,
+  searchParclMarkets,
+  compareParclMarkets,
+  getParclGrossYield,
+  getParclInvestorActivity,
+  getParclPortfolioActivity,
+  searchParclProperties,
+  lookupParclAddresses,
+  getParclPropertyHistory,
+  getParclMarketSnapshot,
+  getParclMarketActivity,
+  getParclHousingStock,
+  getParclSaleInventoryAnalysis,
+  getParclRentalSupply,
+  getParclNewConstruction,
+];
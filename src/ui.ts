@@ -0,0 +1,83 @@
+// Builders for the DAIN UI payloads returned by the tools, so every tool renders its results the
+// same way.
+
+export interface ChartPoint {
+  date: string;
+  value: number;
+}
+
+export interface Column {
+  key: string;
+  header: string;
+  type: "text" | "number";
+}
+
+export interface ChangeBadge {
+  label: string;
+  change_pct: number | null;
+}
+
+export const formatPct = (value: number | null) =>
+  value == null ? "n/a" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export const formatValue = (value: number | null | undefined) =>
+  value == null ? "n/a" : value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+const badge = ({ label, change_pct }: ChangeBadge) =>
+  `${change_pct == null ? "•" : change_pct >= 0 ? "▲" : "▼"} ${label} ${formatPct(change_pct)}`;
+
+export const card = (title: string, lines: string[]) => ({
+  type: "card",
+  uiData: JSON.stringify({ title, content: lines.join("\n") }),
+});
+
+// A single headline value with its unit and as-of date, followed by change badges and any extra
+// detail lines.
+export const metricCard = ({
+  title,
+  value,
+  unit,
+  date,
+  stale = false,
+  changes = [],
+  details = [],
+}: {
+  title: string;
+  value: number;
+  unit: string;
+  date: string;
+  stale?: boolean;
+  changes?: ChangeBadge[];
+  details?: string[];
+}) =>
+  card(title, [
+    `${formatValue(value)} ${unit}`,
+    `As of ${date}${stale ? " (stale)" : ""}`,
+    ...(changes.length > 0 ? [changes.map(badge).join("   ")] : []),
+    ...details,
+  ]);
+
+export const table = (columns: Column[], rows: object[]) => ({
+  type: "table",
+  uiData: JSON.stringify({ columns, rows }),
+});
+
+export const lineChart = ({
+  title,
+  description,
+  series,
+}: {
+  title: string;
+  description: string;
+  series: ChartPoint[];
+}) => ({
+  type: "chart",
+  uiData: JSON.stringify({
+    type: "line",
+    title,
+    description,
+    data: series,
+    xKey: "date",
+    yKey: "value",
+  }),
+});
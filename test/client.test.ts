@@ -0,0 +1,67 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+import { Fetch, ParclClient } from "../src/client";
+import { ConfigError, ParclApiError } from "../src/errors";
+
+const recordingFetch = (status: number, body: unknown) => {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetch: Fetch = async (url, init) => {
+    calls.push({ url, init });
+    return new Response(JSON.stringify(body), { status });
+  };
+  return { calls, fetch };
+};
+
+describe("ParclClient", () => {
+  it("fills path parameters and sends the rest as the query string", async () => {
+    const { calls, fetch } = recordingFetch(200, { items: [] });
+    const client = new ParclClient({ apiKey: "key", baseUrl: "http://parcl.test/", fetch });
+
+    await client.priceFeed({ parcl_id: 42, start_date: "2024-01-01", limit: 10 });
+
+    assert.equal(
+      calls[0].url,
+      "http://parcl.test/v1/price_feed/42/price_feed?start_date=2024-01-01&limit=10"
+    );
+    assert.equal(calls[0].init.method, "GET");
+    assert.equal((calls[0].init.headers as Record<string, string>).Authorization, "key");
+  });
+
+  it("sends batch parameters as a JSON body", async () => {
+    const { calls, fetch } = recordingFetch(200, { items: [] });
+    const client = new ParclClient({ apiKey: "key", fetch });
+
+    await client.priceFeedBatch({ parcl_id: [1, 2] });
+
+    assert.equal(calls[0].url, "https://api.parcllabs.com/v1/price_feed/price_feed");
+    assert.equal(calls[0].init.method, "POST");
+    assert.deepEqual(JSON.parse(calls[0].init.body as string), { parcl_id: [1, 2] });
+  });
+
+  it("raises API errors with the status and parsed body", async () => {
+    const { fetch } = recordingFetch(422, { detail: "bad parcl_id" });
+    const client = new ParclClient({ apiKey: "key", fetch });
+
+    await assert.rejects(client.volatility({ parcl_id: 1 }), (err: unknown) => {
+      assert.ok(err instanceof ParclApiError);
+      assert.equal(err.status, 422);
+      assert.deepEqual(err.data, { detail: "bad parcl_id" });
+      return true;
+    });
+  });
+});
+
+describe("ParclClient.fromEnv", () => {
+  it("fails fast without an API key", () => {
+    assert.throws(() => ParclClient.fromEnv({}), ConfigError);
+    assert.throws(() => ParclClient.fromEnv({ PARCL_API_KEY: "undefined" }), ConfigError);
+  });
+
+  it("rejects an invalid timeout", () => {
+    assert.throws(
+      () => ParclClient.fromEnv({ PARCL_API_KEY: "key", PARCL_TIMEOUT_MS: "soon" }),
+      ConfigError
+    );
+  });
+});
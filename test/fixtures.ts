@@ -0,0 +1,404 @@
+const market = (
+  parcl_id: number,
+  name: string,
+  state_abbreviation: string,
+  total_population: number,
+  location_type = "CITY"
+) => ({
+  parcl_id,
+  country: "USA",
+  geoid: String(parcl_id),
+  state_fips_code: null,
+  name,
+  state_abbreviation,
+  region: null,
+  location_type,
+  total_population,
+  median_income: 75000,
+  parcl_exchange_market: 0,
+  pricefeed_market: 1,
+  case_shiller_10_market: 0,
+  case_shiller_20_market: 0,
+});
+
+export const AUSTIN = market(5822447, "Austin", "TX", 961855);
+export const EMPTYVILLE = market(5900001, "Emptyville", "KS", 1200);
+export const SPRINGFIELD_IL = market(5900100, "Springfield", "IL", 114394);
+export const SPRINGFIELD_MO = market(5900101, "Springfield", "MO", 169176);
+export const AUSTIN_78701 = market(5900200, "78701", "TX", 11942, "ZIP5");
+export const PORT_WASHINGTON = market(5900300, "Port Washington", "NY", 16000);
+
+export const MARKETS = [
+  AUSTIN,
+  market(5822448, "Austin", "MN", 25174),
+  SPRINGFIELD_IL,
+  SPRINGFIELD_MO,
+  EMPTYVILLE,
+  AUSTIN_78701,
+  PORT_WASHINGTON,
+];
+
+const FIRST_DAY = Date.UTC(2024, 0, 1);
+const DAYS = 30;
+
+// Daily observations ending on 2024-01-30, newest first as the API returns them.
+const daily = <K extends string>(key: K, value: (day: number) => number) =>
+  Array.from({ length: DAYS }, (_, day) => ({
+    date: new Date(FIRST_DAY + day * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    [key]: value(day),
+  }))
+    .reverse()
+    .map((item) => item as { date: string } & Record<K, number>);
+
+// Monthly observations ending on 2024-01-01, newest first.
+const monthly = <T extends object>(item: (month: number) => T, months = 12) =>
+  Array.from({ length: months }, (_, month) => ({
+    date: new Date(Date.UTC(2024, month - months + 1, 1)).toISOString().slice(0, 10),
+    ...item(month),
+  })).reverse();
+
+// Weekly observations ending on Monday 2024-01-29, newest first.
+const weekly = <T extends object>(item: (week: number) => T, weeks: number) =>
+  Array.from({ length: weeks }, (_, week) => ({
+    date: new Date(Date.UTC(2024, 0, 29 - (weeks - 1 - week) * 7)).toISOString().slice(0, 10),
+    ...item(week),
+  })).reverse();
+
+const PORTFOLIO_SIZES = [
+  "PORTFOLIO_2_TO_9",
+  "PORTFOLIO_10_TO_99",
+  "PORTFOLIO_100_TO_999",
+  "PORTFOLIO_1000_PLUS",
+  "ALL_PORTFOLIOS",
+];
+
+// Observations of each portfolio size tier, tagged with the tier so the mock server can filter
+// them by the `portfolio_size` query parameter.
+const byPortfolioSize = (items: (portfolioSize: string) => object[]) =>
+  PORTFOLIO_SIZES.flatMap((portfolio_size) =>
+    items(portfolio_size).map((item) => ({ ...item, portfolio_size }))
+  );
+
+// Monthly acquisitions and dispositions: the 2-9 tier is buying, the 1000+ tier is selling.
+const PORTFOLIO_TRADES: Record<string, { acquisitions: number; dispositions: number }> = {
+  PORTFOLIO_2_TO_9: { acquisitions: 50, dispositions: 40 },
+  PORTFOLIO_10_TO_99: { acquisitions: 10, dispositions: 10 },
+  PORTFOLIO_100_TO_999: { acquisitions: 10, dispositions: 10 },
+  PORTFOLIO_1000_PLUS: { acquisitions: 20, dispositions: 30 },
+  ALL_PORTFOLIOS: { acquisitions: 90, dispositions: 90 },
+};
+
+const rollingCounts = (base: number) => ({
+  rolling_7_day: base,
+  rolling_30_day: base * 4,
+  rolling_60_day: base * 8,
+  rolling_90_day: base * 12,
+});
+
+export const WEEKLY_INVENTORY = weekly((week) => ({ for_sale_inventory: 4000 + week * 10 }), 60);
+
+export const FEEDS: Record<string, Record<number, object[]>> = {
+  price_feed: {
+    [AUSTIN.parcl_id]: daily("price_feed", (day) => 300 + day),
+    [SPRINGFIELD_IL.parcl_id]: daily("price_feed", (day) => 200 + day),
+    [SPRINGFIELD_MO.parcl_id]: daily("price_feed", (day) => 150 + day),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  // Springfield, MO has no rental price feed.
+  rental_price_feed: {
+    [AUSTIN.parcl_id]: daily("rental_price_feed", (day) => 1.5 + day / 100),
+    [SPRINGFIELD_IL.parcl_id]: daily("rental_price_feed", (day) => 1.2 + day / 100),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  volatility: {
+    [AUSTIN.parcl_id]: daily("pct_volatility", (day) => (day % 2 === 0 ? 0.02 : 0.04)),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  for_sale_inventory: {
+    [AUSTIN.parcl_id]: daily("for_sale_inventory", (day) => 4000 + day * 10),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  for_sale_inventory_price_changes: {
+    [AUSTIN.parcl_id]: [
+      {
+        date: "2024-01-29",
+        count_price_change: 1200,
+        count_price_drop: 1100,
+        median_days_bt_change: 21,
+        median_price_change: -15000,
+        median_pct_price_change: -3.1,
+        pct_inventory_price_change: 27.8,
+      },
+      {
+        date: "2024-01-22",
+        count_price_change: 1000,
+        count_price_drop: 900,
+        median_days_bt_change: 20,
+        median_price_change: -12000,
+        median_pct_price_change: -2.6,
+        pct_inventory_price_change: 23.5,
+      },
+    ],
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  new_listings_rolling_counts: {
+    [AUSTIN.parcl_id]: [
+      {
+        date: "2024-01-29",
+        rolling_7_day: 210,
+        rolling_30_day: 1100,
+        rolling_60_day: 2300,
+        rolling_90_day: 3600,
+      },
+      {
+        date: "2024-01-22",
+        rolling_7_day: 260,
+        rolling_30_day: 1150,
+        rolling_60_day: 2350,
+        rolling_90_day: 3650,
+      },
+    ],
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  new_listings_for_rent_rolling_counts: {
+    [AUSTIN.parcl_id]: weekly(
+      (week) => ({
+        rolling_7_day: 100 + week,
+        rolling_30_day: 400 + week * 4,
+        rolling_60_day: 800 + week * 8,
+        rolling_90_day: 1200 + week * 12,
+      }),
+      60
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  rental_units_concentration: {
+    [AUSTIN.parcl_id]: monthly(
+      (month) => ({
+        rental_units: 100000 + month * 500,
+        total_units: 400000,
+        pct_rental_concentration: ((100000 + month * 500) / 400000) * 100,
+      }),
+      24
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  housing_stock: {
+    [AUSTIN.parcl_id]: [2024, 2023, 2022].map((year) => ({
+      date: `${year}-01-01`,
+      single_family: 250000 + (year - 2022) * 1000,
+      condo: 60000,
+      townhouse: 30000,
+      other: null,
+      all_properties: 340000 + (year - 2022) * 1000,
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  gross_yield: {
+    // The December 2023 yield is missing, as the API reports months it cannot measure.
+    [AUSTIN.parcl_id]: monthly(
+      (month) => ({ pct_gross_yield: month === 22 ? null : 4 + month * 0.125 }),
+      24
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  all_cash: {
+    [AUSTIN.parcl_id]: monthly((month) => ({ count: 300 + month, pct_all_cash: 25 + month / 2 })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  housing_event_counts: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      sales: 900 + month * 10,
+      new_listings_for_sale: 1000,
+      new_rental_listings: 500,
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  housing_event_prices: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      price: {
+        median: {
+          sales: 500000 + month * 5000,
+          new_listings_for_sale: 520000,
+          new_rental_listings: 2400,
+        },
+      },
+      price_per_square_foot: {
+        median: { sales: 280, new_listings_for_sale: 290, new_rental_listings: 1.4 },
+      },
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  new_construction_housing_event_counts: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      sales: 100 + month,
+      new_listings_for_sale: 150,
+      new_rental_listings: null,
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  new_construction_housing_event_prices: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      price: {
+        median: {
+          sales: 550000 + month * 5000,
+          new_listings_for_sale: 575000,
+          new_rental_listings: null,
+        },
+      },
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  housing_event_property_attributes: {
+    [AUSTIN.parcl_id]: monthly(() => ({
+      square_footage: {
+        median: { sales: 1850, new_listings_for_sale: 1900, new_rental_listings: 1200 },
+      },
+      property_age: { median: { sales: 22, new_listings_for_sale: 20, new_rental_listings: 25 } },
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  investor_housing_event_counts: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      acquisitions: 200 + month * 5,
+      dispositions: 180,
+      new_listings_for_sale: 150,
+      new_rental_listings: 90,
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  investor_purchase_to_sale_ratio: {
+    [AUSTIN.parcl_id]: monthly((month) => ({ purchase_to_sale_ratio: 1 + month * 0.125 })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  investor_housing_stock_ownership: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      count: 50000 + month * 100,
+      pct_ownership: 12 + month * 0.25,
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  portfolio_sf_housing_stock_ownership: {
+    [AUSTIN.parcl_id]: monthly((month) => ({
+      count: {
+        portfolio_2_to_9: 40000 + month * 10,
+        portfolio_10_to_99: 8000,
+        portfolio_100_to_999: 5000,
+        portfolio_1000_plus: 12000 - month * 10,
+        all_portfolios: 65000,
+      },
+      pct_sf_housing_stock: {
+        portfolio_2_to_9: 16 + month * 0.125,
+        portfolio_10_to_99: 3.2,
+        portfolio_100_to_999: 2,
+        portfolio_1000_plus: 5 - month * 0.125,
+        all_portfolios: 26,
+      },
+    })),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  portfolio_sf_housing_event_counts: {
+    [AUSTIN.parcl_id]: byPortfolioSize((portfolioSize) =>
+      monthly(() => ({
+        ...PORTFOLIO_TRADES[portfolioSize],
+        new_listings_for_sale: 5,
+        new_rental_listings: 3,
+      }))
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  portfolio_sf_new_listings_for_sale_rolling_counts: {
+    [AUSTIN.parcl_id]: byPortfolioSize(() =>
+      weekly(
+        (week) => ({ count: rollingCounts(10 + week), pct_sf_for_sale_market: rollingCounts(1) }),
+        2
+      )
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+  portfolio_sf_new_listings_for_rent_rolling_counts: {
+    [AUSTIN.parcl_id]: byPortfolioSize(() =>
+      weekly(
+        (week) => ({ count: rollingCounts(20 + week), pct_sf_for_rent_market: rollingCounts(2) }),
+        2
+      )
+    ),
+    [EMPTYVILLE.parcl_id]: [],
+  },
+};
+
+const property = (
+  parcl_property_id: number,
+  address: string,
+  unit: string | null,
+  zip_code: string,
+  property_type: string,
+  bedrooms: number,
+  square_footage: number
+) => ({
+  parcl_property_id,
+  address,
+  unit,
+  city: "AUSTIN",
+  zip_code,
+  state_abbreviation: "TX",
+  county: "Travis County",
+  cbsa: "Austin-Round Rock-Georgetown",
+  latitude: 30.27,
+  longitude: -97.74,
+  property_type,
+  bedrooms,
+  bathrooms: 2,
+  square_footage,
+  year_built: 2001,
+  cbsa_parcl_id: 2900078,
+  county_parcl_id: 5822000,
+  city_parcl_id: AUSTIN.parcl_id,
+  zip_parcl_id: zip_code === AUSTIN_78701.name ? AUSTIN_78701.parcl_id : 5900201,
+  event_count: 5,
+  event_history_sale_flag: 1,
+  event_history_rental_flag: 1,
+  event_history_listing_flag: 1,
+  current_new_construction_flag: 0,
+  current_owner_occupied_flag: 0,
+  current_investor_owned_flag: 1,
+  current_entity_owner_name: null,
+});
+
+export const PROPERTIES = [
+  property(1001, "100 CONGRESS AVE", "4", "78701", "CONDO", 2, 1100),
+  property(1002, "200 LAMAR BLVD", null, "78704", "SINGLE_FAMILY", 3, 1850),
+  property(1003, "300 RIVER ST", null, "78701", "SINGLE_FAMILY", 4, 2400),
+];
+
+const event = (
+  parcl_property_id: number,
+  event_date: string,
+  event_type: string,
+  event_name: string,
+  price: number | null
+) => ({
+  parcl_property_id,
+  event_date,
+  event_type,
+  event_name,
+  price,
+  owner_occupied_flag: 0,
+  new_construction_flag: 0,
+  investor_flag: 1,
+  entity_owner_name: null,
+  current_owner_flag: 0,
+  transfer_index: 1,
+  true_sale_index: 1,
+});
+
+// Property 1001 sold twice, was rented out and is back on the market; 1002 sold once.
+export const PROPERTY_EVENTS = [
+  event(1001, "2015-03-01", "SALE", "SOLD", 300000),
+  event(1001, "2020-05-15", "SALE", "SOLD", 450000),
+  event(1001, "2022-08-01", "RENTAL", "LISTED_FOR_RENT", 2800),
+  event(1001, "2022-09-01", "RENTAL", "DELISTED_FOR_RENT", 2800),
+  event(1001, "2023-11-01", "LISTING", "LISTED_SALE", 525000),
+  event(1001, "2023-12-01", "LISTING", "PRICE_CHANGE", 510000),
+  event(1002, "2019-01-10", "SALE", "SOLD", 380000),
+];
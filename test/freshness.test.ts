@@ -0,0 +1,61 @@
+import assert from "assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import { ConfigError } from "../src/errors";
+import {
+  DEFAULT_STALE_AFTER_DAYS,
+  freshness,
+  setStaleAfterDays,
+  staleAfterDaysFromEnv,
+} from "../src/freshness";
+
+const TODAY = new Date("2024-03-01T12:00:00Z");
+
+describe("freshness", () => {
+  afterEach(() => {
+    setStaleAfterDays(DEFAULT_STALE_AFTER_DAYS);
+  });
+
+  it("reports the age of the latest observation", () => {
+    assert.deepEqual(freshness("2024-02-27", "daily", TODAY), {
+      as_of: "2024-02-27",
+      age_days: 3,
+      stale: false,
+    });
+  });
+
+  it("flags observations older than the threshold for their frequency", () => {
+    assert.equal(freshness("2024-02-20", "daily", TODAY).stale, true);
+    assert.equal(freshness("2024-02-20", "weekly", TODAY).stale, false);
+    assert.equal(freshness("2024-01-01", "monthly", TODAY).stale, false);
+  });
+
+  it("never flags data without a frequency or a date", () => {
+    assert.equal(freshness("2020-01-01", null, TODAY).stale, false);
+    assert.deepEqual(freshness(null, "daily", TODAY), {
+      as_of: null,
+      age_days: null,
+      stale: false,
+    });
+  });
+
+  it("uses configured thresholds", () => {
+    setStaleAfterDays({ daily: 30 });
+
+    assert.equal(freshness("2024-02-20", "daily", TODAY).stale, false);
+  });
+
+  it("reads thresholds from the environment", () => {
+    assert.deepEqual(
+      staleAfterDaysFromEnv({
+        PARCL_STALE_AFTER_DAYS_DAILY: "3",
+        PARCL_STALE_AFTER_DAYS_MONTHLY: "",
+      }),
+      { daily: 3 }
+    );
+    assert.throws(
+      () => staleAfterDaysFromEnv({ PARCL_STALE_AFTER_DAYS_WEEKLY: "two" }),
+      ConfigError
+    );
+  });
+});
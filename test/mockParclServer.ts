@@ -0,0 +1,282 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import { FEEDS, MARKETS, PROPERTIES, PROPERTY_EVENTS } from "./fixtures";
+
+export const API_KEY = "test-parcl-api-key";
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface MockParclServer {
+  url: string;
+  requests: string[];
+  // Answers every request whose path matches `pattern` with `response` until `reset` is called.
+  override(pattern: RegExp, response: MockResponse): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_LIMIT = 12;
+// The batch endpoints page through 1000 items at a time unless told otherwise.
+const BATCH_LIMIT = 1000;
+
+const page = (
+  items: object[],
+  query: URLSearchParams,
+  defaultLimit = DEFAULT_LIMIT
+): MockResponse => {
+  const limit = Number(query.get("limit") ?? defaultLimit);
+  const offset = Number(query.get("offset") ?? 0);
+
+  return {
+    status: 200,
+    body: {
+      items: items.slice(offset, offset + limit),
+      total: items.length,
+      limit,
+      offset,
+      links: { first: null, last: null, self: null, next: null, prev: null },
+    },
+  };
+};
+
+const searchMarkets = (query: URLSearchParams): MockResponse => {
+  const text = query.get("query")?.toLowerCase();
+  const state = query.get("state_abbreviation");
+  const locationType = query.get("location_type");
+
+  const matches = MARKETS.filter(
+    (market) =>
+      (!text || market.name.toLowerCase().includes(text)) &&
+      (!state || market.state_abbreviation === state) &&
+      (!locationType || locationType === "ALL" || market.location_type === locationType)
+  ).sort((a, b) => b.total_population - a.total_population);
+
+  return matches.length > 0
+    ? page(matches, query)
+    : { status: 404, body: { detail: "No markets match the search criteria" } };
+};
+
+// Observations of portfolio metrics carry their `portfolio_size`, which is matched against the
+// query parameter of the same name.
+const feed = (endpoint: string, parclId: number, query: URLSearchParams): MockResponse => {
+  const items = FEEDS[endpoint][parclId] as
+    | Array<{ date: string; portfolio_size?: string }>
+    | undefined;
+  const start = query.get("start_date");
+  const end = query.get("end_date");
+  const portfolioSize = query.get("portfolio_size");
+
+  if (!items) {
+    return { status: 404, body: { detail: `No ${endpoint} data for parcl_id ${parclId}` } };
+  }
+
+  return page(
+    items.filter(
+      (item) =>
+        (!start || item.date >= start) &&
+        (!end || item.date <= end) &&
+        (!portfolioSize || item.portfolio_size === portfolioSize)
+    ),
+    query
+  );
+};
+
+const batchFeed = (
+  endpoint: string,
+  body: { parcl_id: number[]; start_date?: string; end_date?: string },
+  query: URLSearchParams
+): MockResponse => {
+  const items = body.parcl_id.flatMap((parclId) =>
+    ((FEEDS[endpoint][parclId] ?? []) as Array<{ date: string }>)
+      .filter(
+        (item) =>
+          (!body.start_date || item.date >= body.start_date) &&
+          (!body.end_date || item.date <= body.end_date)
+      )
+      .map((item) => ({ parcl_id: parclId, ...item }))
+  );
+
+  return page(items, query, BATCH_LIMIT);
+};
+
+const RANGE_FILTERS = ["bedrooms", "bathrooms", "square_footage", "year_built"] as const;
+
+const searchProperties = (query: URLSearchParams): MockResponse => {
+  const parclId = Number(query.get("parcl_id"));
+  const propertyType = query.get("property_type");
+
+  return {
+    status: 200,
+    body: PROPERTIES.filter(
+      (property) =>
+        [property.city_parcl_id, property.zip_parcl_id].includes(parclId) &&
+        (!propertyType || property.property_type === propertyType) &&
+        RANGE_FILTERS.every(
+          (field) =>
+            (!query.has(`${field}_min`) || property[field] >= Number(query.get(`${field}_min`))) &&
+            (!query.has(`${field}_max`) || property[field] <= Number(query.get(`${field}_max`)))
+        )
+    ),
+  };
+};
+
+// Addresses match on every field, as the API only returns exact matches.
+const searchAddresses = (
+  body: Array<{
+    address: string;
+    unit?: string;
+    city: string;
+    state_abbreviation: string;
+    zip_code: string;
+    source_id?: string;
+  }>
+): MockResponse => ({
+  status: 200,
+  body: body.map((query) => ({
+    parcl_property_id:
+      PROPERTIES.find(
+        (property) =>
+          property.address === query.address &&
+          property.unit === (query.unit ?? null) &&
+          property.city === query.city &&
+          property.state_abbreviation === query.state_abbreviation &&
+          property.zip_code === query.zip_code
+      )?.parcl_property_id ?? null,
+    source_id: query.source_id ?? null,
+  })),
+});
+
+const eventHistory = (body: { parcl_property_id: string[]; event_type: string }): MockResponse => ({
+  status: 200,
+  body: PROPERTY_EVENTS.filter(
+    (event) =>
+      body.parcl_property_id.includes(String(event.parcl_property_id)) &&
+      (body.event_type === "ALL" || event.event_type === body.event_type)
+  ),
+});
+
+const post = (path: string, query: URLSearchParams, body: any): MockResponse => {
+  const batch = path.match(/^\/v1\/price_feed\/(price_feed|rental_price_feed)$/);
+  if (batch) {
+    return batchFeed(batch[1], body, query);
+  }
+
+  if (path === "/v1/property/search_address") {
+    return searchAddresses(body);
+  }
+
+  if (path === "/v1/property/event_history") {
+    return eventHistory(body);
+  }
+
+  return { status: 404, body: { detail: "Not Found" } };
+};
+
+const route = (path: string, query: URLSearchParams): MockResponse => {
+  if (path === "/v1/search/markets") {
+    return searchMarkets(query);
+  }
+
+  if (path === "/v1/property/search") {
+    return searchProperties(query);
+  }
+
+  const priceFeed = path.match(
+    /^\/v1\/price_feed\/(\d+)\/(price_feed|rental_price_feed|volatility)$/
+  );
+  if (priceFeed) {
+    return feed(priceFeed[2], Number(priceFeed[1]), query);
+  }
+
+  const inventory = path.match(
+    /^\/v1\/for_sale_market_metrics\/(\d+)\/(for_sale_inventory|for_sale_inventory_price_changes|new_listings_rolling_counts)$/
+  );
+  if (inventory) {
+    return feed(inventory[2], Number(inventory[1]), query);
+  }
+
+  const rentalMetrics = path.match(
+    /^\/v1\/rental_market_metrics\/(\d+)\/(gross_yield|new_listings_for_rent_rolling_counts|rental_units_concentration)$/
+  );
+  if (rentalMetrics) {
+    return feed(rentalMetrics[2], Number(rentalMetrics[1]), query);
+  }
+
+  const newConstruction = path.match(
+    /^\/v1\/new_construction_metrics\/(\d+)\/(housing_event_counts|housing_event_prices)$/
+  );
+  if (newConstruction) {
+    return feed(`new_construction_${newConstruction[2]}`, Number(newConstruction[1]), query);
+  }
+
+  const marketMetrics = path.match(
+    /^\/v1\/market_metrics\/(\d+)\/(housing_stock|all_cash|housing_event_counts|housing_event_prices|housing_event_property_attributes)$/
+  );
+  if (marketMetrics) {
+    return feed(marketMetrics[2], Number(marketMetrics[1]), query);
+  }
+
+  const investorMetrics = path.match(
+    /^\/v1\/investor_metrics\/(\d+)\/(housing_event_counts|purchase_to_sale_ratio|housing_stock_ownership)$/
+  );
+  if (investorMetrics) {
+    return feed(`investor_${investorMetrics[2]}`, Number(investorMetrics[1]), query);
+  }
+
+  const portfolioMetrics = path.match(
+    /^\/v1\/portfolio_metrics\/(\d+)\/(sf_housing_event_counts|sf_housing_stock_ownership|sf_new_listings_for_sale_rolling_counts|sf_new_listings_for_rent_rolling_counts)$/
+  );
+  if (portfolioMetrics) {
+    return feed(`portfolio_${portfolioMetrics[2]}`, Number(portfolioMetrics[1]), query);
+  }
+
+  return { status: 404, body: { detail: "Not Found" } };
+};
+
+// A local stand-in for the Parcl Labs API serving the routes in `route` and `post` from fixture
+// data.
+export const startMockParclServer = async (): Promise<MockParclServer> => {
+  const requests: string[] = [];
+  let overrides: Array<{ pattern: RegExp; response: MockResponse }> = [];
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+    let text = "";
+    for await (const chunk of req) {
+      text += chunk;
+    }
+
+    const response: MockResponse =
+      req.headers.authorization !== API_KEY
+        ? { status: 401, body: { detail: "Invalid token" } }
+        : overrides.find(({ pattern }) => pattern.test(url.pathname))?.response ??
+          (req.method === "POST"
+            ? post(url.pathname, url.searchParams, JSON.parse(text))
+            : route(url.pathname, url.searchParams));
+
+    res.writeHead(response.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    override(pattern, response) {
+      overrides.push({ pattern, response });
+    },
+    reset() {
+      overrides = [];
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
@@ -0,0 +1,55 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+import { PropertyEvent, summarizePropertyHistory } from "../src/properties";
+
+const TODAY = new Date("2024-03-01T00:00:00Z");
+
+const event = (
+  event_date: string,
+  event_type: string,
+  event_name: string,
+  price: number | null
+): PropertyEvent => ({
+  parcl_property_id: 1,
+  event_date,
+  event_type,
+  event_name,
+  price,
+  owner_occupied_flag: 1,
+  new_construction_flag: 0,
+  investor_flag: 0,
+  entity_owner_name: null,
+  current_owner_flag: 0,
+  transfer_index: 0,
+  true_sale_index: 0,
+});
+
+describe("summarizePropertyHistory", () => {
+  it("takes the last sale from arm's-length sales with a price", () => {
+    const summary = summarizePropertyHistory(
+      [
+        event("2018-05-01", "SALE", "SOLD", 300000),
+        event("2022-03-01", "SALE", "SOLD", 450000),
+        event("2023-06-01", "SALE", "NON_ARMS_LENGTH_TRANSFER", 0),
+        event("2023-09-01", "SALE", "NON_ARMS_LENGTH_INTRA_PORTFOLIO_TRANSFER", 10),
+      ],
+      TODAY
+    );
+
+    assert.deepEqual(summary.last_sale, { date: "2022-03-01", price: 450000 });
+    assert.equal(summary.hold_period_days, 731);
+    assert.equal(summary.appreciation.length, 1);
+    assert.equal(summary.appreciation[0].to_date, "2022-03-01");
+  });
+
+  it("reports no last sale when the property has only been transferred", () => {
+    const summary = summarizePropertyHistory(
+      [event("2023-06-01", "SALE", "NON_ARMS_LENGTH_TRANSFER", 0)],
+      TODAY
+    );
+
+    assert.equal(summary.last_sale, null);
+    assert.equal(summary.hold_period_days, null);
+  });
+});
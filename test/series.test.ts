@@ -0,0 +1,52 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+import { baselinePoint, periodChanges } from "../src/series";
+
+const series = (dates: string[]) => dates.map((date, index) => ({ date, value: 100 + index }));
+
+describe("periodChanges", () => {
+  it("reports a change only for periods the spacing of the series can measure", () => {
+    const changes = periodChanges(
+      series(["2024-01-01", "2024-01-08", "2024-01-15", "2024-01-22", "2024-01-29"])
+    );
+
+    assert.deepEqual(
+      changes.map(({ period, baseline_date }) => [period, baseline_date]),
+      [
+        ["1d", null],
+        ["7d", "2024-01-22"],
+        ["30d", null],
+        ["90d", null],
+        ["yoy", null],
+      ]
+    );
+  });
+
+  it("drops a baseline that lies further back than one observation gap", () => {
+    const changes = periodChanges(series(["2023-11-01", "2024-01-28", "2024-01-29", "2024-01-30"]));
+
+    assert.equal(changes[0].baseline_date, "2024-01-29");
+    assert.equal(changes[1].baseline_date, null);
+    assert.equal(changes[2].baseline_date, null);
+  });
+});
+
+describe("baselinePoint", () => {
+  const weeks = (from: string, count: number) =>
+    Array.from({ length: count }, (_, week) => ({
+      date: new Date(Date.parse(from) + week * 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    }));
+
+  it("finds the same week last year in a weekly series", () => {
+    assert.deepEqual(baselinePoint(weeks("2023-01-02", 57), 52 * 7), { date: "2023-01-30" });
+  });
+
+  it("finds nothing when the series has a gap around the lookback date", () => {
+    const gappy = weeks("2023-01-02", 57).filter(
+      ({ date }) => date < "2023-01-16" || date > "2023-02-13"
+    );
+
+    assert.equal(baselinePoint(gappy, 52 * 7), null);
+  });
+});
@@ -0,0 +1,1220 @@
+import assert from "assert/strict";
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+
+import { ToolConfig } from "@dainprotocol/service-sdk";
+
+import { MemoryCacheStore, setCacheStore } from "../src/cache";
+import { ParclClient, setParclClient } from "../src/client";
+import { DEFAULT_STALE_AFTER_DAYS, setStaleAfterDays } from "../src/freshness";
+import { resolveMarket } from "../src/markets";
+import {
+  compareParclMarkets,
+  getParclGrossYield,
+  getParclHousingStock,
+  getParclInvestorActivity,
+  getParclMarketActivity,
+  getParclMarketSnapshot,
+  getParclNewConstruction,
+  getParclPortfolioActivity,
+  getParclPriceFeed,
+  getParclPropertyHistory,
+  getParclRentalPriceFeed,
+  getParclRentalSupply,
+  getParclSaleInventoryAnalysis,
+  getParclSaleInventoryFeed,
+  getParclVolatilityFeed,
+  lookupParclAddresses,
+  searchParclMarkets,
+  searchParclProperties,
+} from "../src/tools";
+import {
+  AUSTIN,
+  AUSTIN_78701,
+  EMPTYVILLE,
+  FEEDS,
+  PORT_WASHINGTON,
+  WEEKLY_INVENTORY,
+} from "./fixtures";
+import { API_KEY, MockParclServer, startMockParclServer } from "./mockParclServer";
+
+const runTool = (tool: ToolConfig, input: object) =>
+  tool.handler(tool.input.parse(input), { agentId: "test-agent" });
+
+const AUSTIN_INPUT = { location: "Austin, TX" };
+const EMPTY_INPUT = { location: `${EMPTYVILLE.name}, KS` };
+
+// Each tool is checked against a rejected API key and a 404 and 500 from `route`. Tools that
+// report missing data as an error are also run with the `empty` input, which finds no items.
+// `emptyOn404` marks tools for which a 404 means nothing matched rather than an error.
+const ERROR_CASES: Array<{
+  tool: ToolConfig;
+  route: RegExp;
+  input: object;
+  empty?: object;
+  emptyOn404?: boolean;
+}> = [
+  { tool: getParclPriceFeed, route: /\/price_feed$/, input: AUSTIN_INPUT, empty: EMPTY_INPUT },
+  {
+    tool: getParclRentalPriceFeed,
+    route: /\/rental_price_feed$/,
+    input: AUSTIN_INPUT,
+    empty: EMPTY_INPUT,
+  },
+  { tool: getParclVolatilityFeed, route: /\/volatility$/, input: AUSTIN_INPUT, empty: EMPTY_INPUT },
+  {
+    tool: getParclSaleInventoryFeed,
+    route: /\/for_sale_inventory$/,
+    input: AUSTIN_INPUT,
+    empty: EMPTY_INPUT,
+  },
+  {
+    tool: compareParclMarkets,
+    route: /^\/v1\/price_feed\/price_feed$/,
+    input: { locations: ["Austin, TX", "Springfield, IL"] },
+  },
+  { tool: getParclGrossYield, route: /\/gross_yield$/, input: AUSTIN_INPUT, empty: EMPTY_INPUT },
+  {
+    tool: getParclInvestorActivity,
+    route: /\/investor_metrics\/\d+\/housing_event_counts$/,
+    input: { ...AUSTIN_INPUT, start_date: "2023-01-01" },
+    empty: { ...EMPTY_INPUT, start_date: "2023-01-01" },
+  },
+  {
+    tool: getParclPortfolioActivity,
+    route: /\/sf_housing_stock_ownership$/,
+    input: { ...AUSTIN_INPUT, start_date: "2023-01-01" },
+    empty: { ...EMPTY_INPUT, start_date: "2023-01-01" },
+  },
+  {
+    tool: searchParclProperties,
+    route: /\/property\/search$/,
+    input: { ...AUSTIN_INPUT, property_type: "SINGLE_FAMILY" },
+  },
+  {
+    tool: lookupParclAddresses,
+    route: /\/search_address$/,
+    input: { addresses: ["100 Congress Ave Apt 4, Austin, TX 78701"] },
+  },
+  {
+    tool: getParclPropertyHistory,
+    route: /\/event_history$/,
+    input: { parcl_property_ids: [1001] },
+    empty: { parcl_property_ids: [9999] },
+  },
+  {
+    tool: getParclMarketSnapshot,
+    route: /^\/v1\/(?!search\/)/,
+    input: AUSTIN_INPUT,
+    empty: EMPTY_INPUT,
+  },
+  {
+    tool: searchParclMarkets,
+    route: /\/search\/markets$/,
+    input: { query: "Austin" },
+    emptyOn404: true,
+  },
+  {
+    tool: getParclMarketActivity,
+    route: /\/market_metrics\/\d+\/housing_event_counts$/,
+    input: { ...AUSTIN_INPUT, start_date: "2023-01-01" },
+  },
+  { tool: getParclHousingStock, route: /\/housing_stock$/, input: AUSTIN_INPUT },
+  { tool: getParclSaleInventoryAnalysis, route: /\/for_sale_inventory$/, input: AUSTIN_INPUT },
+  {
+    tool: getParclRentalSupply,
+    route: /\/new_listings_for_rent_rolling_counts$/,
+    input: AUSTIN_INPUT,
+  },
+  {
+    tool: getParclNewConstruction,
+    route: /\/new_construction_metrics\/\d+\/housing_event_counts$/,
+    input: { ...AUSTIN_INPUT, start_date: "2023-01-01" },
+  },
+];
+
+describe("tools against the mock Parcl API", () => {
+  let server: MockParclServer;
+
+  before(async () => {
+    server = await startMockParclServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    setCacheStore(new MemoryCacheStore());
+    setParclClient(new ParclClient({ apiKey: API_KEY, baseUrl: server.url }));
+    setStaleAfterDays(DEFAULT_STALE_AFTER_DAYS);
+  });
+
+  describe("get-parcl-price-feed", () => {
+    it("returns the latest price per square foot", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.value, 329);
+      assert.match(result.text, /329/);
+    });
+
+    it("reports the value with its unit, date, market and source", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.value, 329);
+      assert.equal(result.data.unit, "USD per square foot");
+      assert.equal(result.data.date, "2024-01-30");
+      assert.equal(result.data.parcl_id, AUSTIN.parcl_id);
+      assert.equal(result.data.market_name, "Austin");
+      assert.equal(result.data.state_abbreviation, "TX");
+      assert.equal(result.data.location_type, "CITY");
+      assert.deepEqual(result.data.sources, ["GET /v1/price_feed/{parcl_id}/price_feed"]);
+      assert.match(result.text, /Austin TX \(CITY, parcl_id 5822447\)/);
+      assert.match(result.text, /as of 2024-01-30/);
+    });
+
+    it("renders the latest value as a metric card", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+      const card = JSON.parse(result.ui.uiData);
+
+      assert.equal(result.ui.type, "card");
+      assert.match(card.content, /^329 USD per square foot\nAs of 2024-01-30/);
+    });
+
+    it("flags data older than the staleness threshold", async () => {
+      const stale = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+      setStaleAfterDays({ daily: 100000 });
+      const fresh = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(stale.data.as_of, "2024-01-30");
+      assert.equal(stale.data.stale, true);
+      assert.match(stale.text, /may be stale/);
+      assert.equal(fresh.data.stale, false);
+      assert.doesNotMatch(fresh.text, /stale/);
+    });
+
+    it("does not flag a historical range with an end date as stale", async () => {
+      const result = await runTool(getParclPriceFeed, {
+        location: "Austin, TX",
+        start_date: "2024-01-10",
+        end_date: "2024-01-19",
+      });
+
+      assert.equal(result.data.as_of, "2024-01-19");
+      assert.equal(result.data.stale, false);
+    });
+
+    it("rejects API data that does not match the output schema", async () => {
+      server.override(/\/price_feed$/, {
+        status: 200,
+        body: { items: [{ date: "2024-01-30", price_feed: "n/a" }], total: 1 },
+      });
+      const result = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.error.code, "INTERNAL_ERROR");
+    });
+
+    it("returns the daily series for a date range", async () => {
+      const result = await runTool(getParclPriceFeed, {
+        location: "Austin, TX",
+        start_date: "2024-01-10",
+        end_date: "2024-01-19",
+      });
+
+      assert.equal(result.data.series.length, 10);
+      assert.deepEqual(result.data.summary.start, { date: "2024-01-10", value: 309 });
+      assert.deepEqual(result.data.summary.end, { date: "2024-01-19", value: 318 });
+      assert.equal(result.data.value, 318);
+      assert.equal(result.data.date, "2024-01-19");
+      assert.equal(JSON.parse(result.ui.uiData).type, "line");
+    });
+
+    it("rejects a date range that ends before it starts", () => {
+      for (const tool of [getParclPriceFeed, getParclRentalPriceFeed]) {
+        const result = tool.input.safeParse({
+          location: "Austin, TX",
+          start_date: "2024-01-19",
+          end_date: "2024-01-10",
+        });
+
+        assert.equal(result.success, false);
+        assert.match(result.error.issues[0].message, /start_date must be on or before end_date/);
+      }
+    });
+
+    it("rejects dates that do not exist", () => {
+      for (const start_date of ["2024-02-31", "2024-13-01"]) {
+        const result = getParclPriceFeed.input.safeParse({ location: "Austin, TX", start_date });
+
+        assert.equal(result.success, false);
+        assert.deepEqual(result.error.issues[0].path, ["start_date"]);
+        assert.match(result.error.issues[0].message, /real calendar dates/);
+      }
+    });
+
+    it("rejects changes combined with a date range", () => {
+      for (const tool of [getParclPriceFeed, getParclRentalPriceFeed]) {
+        const result = tool.input.safeParse({
+          location: "Austin, TX",
+          start_date: "2024-01-10",
+          include_changes: true,
+        });
+
+        assert.equal(result.success, false);
+        assert.deepEqual(result.error.issues[0].path, ["include_changes"]);
+        assert.match(result.error.issues[0].message, /cannot be combined with start_date/);
+      }
+    });
+
+    it("renders a date range without observations as a card", async () => {
+      const result = await runTool(getParclPriceFeed, {
+        location: "Austin, TX",
+        start_date: "2023-06-01",
+        end_date: "2023-06-30",
+      });
+
+      assert.equal(result.data.series.length, 0);
+      assert.equal(result.ui.type, "card");
+      assert.match(JSON.parse(result.ui.uiData).content, /No price per square foot observations/);
+    });
+
+    it("serves repeated requests from the cache", async () => {
+      await runTool(getParclPriceFeed, { location: "Austin, TX" });
+      const requests = server.requests.length;
+      const result = await runTool(getParclPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(server.requests.length, requests);
+      assert.equal(result.data.cache.hit, true);
+    });
+  });
+
+  describe("period-over-period changes", () => {
+    it("reports each change against an explicit baseline", async () => {
+      const result = await runTool(getParclPriceFeed, {
+        location: "Austin, TX",
+        include_changes: true,
+      });
+      const changes = Object.fromEntries(
+        result.data.changes.map((change: { period: string }) => [change.period, change])
+      );
+
+      assert.deepEqual(changes["1d"], {
+        period: "1d",
+        baseline_date: "2024-01-29",
+        baseline_value: 328,
+        change: 1,
+        change_pct: (1 / 328) * 100,
+      });
+      assert.equal(changes["7d"].baseline_date, "2024-01-23");
+      assert.equal(changes["7d"].change, 7);
+      assert.equal(changes["yoy"].baseline_date, null);
+      assert.equal(changes["yoy"].change_pct, null);
+      assert.match(result.text, /7d \+2\.17% \(from 322 on 2024-01-23\)/);
+    });
+
+    it("requests the year of history ending at the latest observation", async () => {
+      await runTool(getParclSaleInventoryFeed, { location: "Austin, TX", include_changes: true });
+
+      assert.ok(
+        server.requests.some((request) =>
+          request.includes("/for_sale_inventory?start_date=2023-01-23&end_date=2024-01-30")
+        )
+      );
+    });
+
+    it("skips the extra request unless changes are asked for", async () => {
+      const result = await runTool(getParclRentalPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.changes, undefined);
+      assert.ok(!server.requests.some((request) => request.includes("start_date")));
+    });
+
+    it("reports no 1-day change for a weekly series", async () => {
+      server.override(/\/for_sale_inventory$/, {
+        status: 200,
+        body: { items: WEEKLY_INVENTORY, total: WEEKLY_INVENTORY.length },
+      });
+      const result = await runTool(getParclSaleInventoryFeed, {
+        location: "Austin, TX",
+        include_changes: true,
+      });
+      const changes = Object.fromEntries(
+        result.data.changes.map((change: { period: string }) => [change.period, change])
+      );
+
+      assert.equal(changes["1d"].baseline_date, null);
+      assert.equal(changes["1d"].change_pct, null);
+      assert.equal(changes["7d"].baseline_date, "2024-01-22");
+      assert.equal(changes["7d"].change, 10);
+      assert.equal(changes["30d"].baseline_date, "2023-12-25");
+      assert.equal(changes["yoy"].baseline_date, "2023-01-23");
+      assert.equal(changes["yoy"].change, 530);
+    });
+  });
+
+  describe("get-parcl-rental-price-feed", () => {
+    it("returns the latest rent per square foot", async () => {
+      const result = await runTool(getParclRentalPriceFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.value, 1.79);
+    });
+  });
+
+  describe("get-parcl-volatility-feed", () => {
+    it("summarizes the requested window", async () => {
+      const result = await runTool(getParclVolatilityFeed, { location: "Austin", window: 6 });
+
+      assert.equal(result.data.observations, 6);
+      assert.equal(result.data.volatility_min, 0.02);
+      assert.equal(result.data.volatility_max, 0.04);
+      assert.ok(Math.abs(result.data.volatility_average - 0.03) < 1e-9);
+      assert.equal(result.data.latest.date, "2024-01-30");
+      assert.equal(result.data.value, 0.04);
+      assert.equal(result.data.unit, "percent");
+    });
+  });
+
+  describe("get-parcl-sale-inventory-feed", () => {
+    it("returns the latest for-sale inventory", async () => {
+      const result = await runTool(getParclSaleInventoryFeed, { location: "Austin, TX" });
+
+      assert.equal(result.data.value, 4290);
+      assert.equal(result.data.unit, "homes");
+    });
+  });
+
+  describe("get-market-activity", () => {
+    const input = { location: "Austin, TX", start_date: "2023-01-01" };
+
+    it("merges counts, prices and attributes into monthly rows", async () => {
+      const result = await runTool(getParclMarketActivity, input);
+
+      assert.equal(result.data.months.length, 12);
+      assert.deepEqual(result.data.months[11], {
+        date: "2024-01-01",
+        sales: 1010,
+        new_listings_for_sale: 1000,
+        new_rental_listings: 500,
+        absorption_ratio: 1.01,
+        median_sale_price: 555000,
+        median_list_price: 520000,
+        median_rent: 2400,
+        median_sale_price_per_sqft: 280,
+        median_square_footage: 1850,
+        median_property_age: 22,
+      });
+      assert.equal(result.data.property_type, "ALL_PROPERTIES");
+      assert.deepEqual(result.data.period, { start_date: "2023-02-01", end_date: "2024-01-01" });
+      assert.equal(result.data.as_of, "2024-01-01");
+    });
+
+    it("derives totals, absorption and the median sale price trend", async () => {
+      const result = await runTool(getParclMarketActivity, input);
+
+      assert.deepEqual(result.data.totals, {
+        sales: 11460,
+        new_listings_for_sale: 12000,
+        new_rental_listings: 6000,
+      });
+      assert.equal(result.data.absorption.latest, 1.01);
+      assert.equal(result.data.absorption.period, 0.955);
+      assert.equal(result.data.median_sale_price_trend.direction, "rising");
+      assert.equal(result.data.median_sale_price_trend.change, 55000);
+      assert.equal(result.data.median_sale_price_trend.change_pct, 11);
+      assert.match(result.text, /\+11\.00% \(rising\)/);
+      assert.equal(result.ui.type, "table");
+    });
+
+    it("passes the property type to every endpoint", async () => {
+      await runTool(getParclMarketActivity, { ...input, property_type: "CONDO" });
+
+      const activity = server.requests.filter((request) => request.includes("/market_metrics/"));
+      assert.equal(activity.length, 3);
+      assert.ok(activity.every((request) => request.includes("property_type=CONDO")));
+    });
+
+    it("reports a market without activity", async () => {
+      const result = await runTool(getParclMarketActivity, {
+        ...input,
+        location: `${EMPTYVILLE.name}, KS`,
+      });
+
+      assert.equal(result.data.error.code, "NO_DATA");
+    });
+  });
+
+  describe("get-housing-stock", () => {
+    it("reports the latest housing units by property type", async () => {
+      const result = await runTool(getParclHousingStock, { location: "Austin, TX" });
+      const stock = result.data.housing_stock;
+
+      assert.equal(stock.date, "2024-01-01");
+      assert.equal(stock.all_properties, 342000);
+      assert.deepEqual(stock.by_property_type[0], {
+        property_type: "single_family",
+        units: 252000,
+        pct_of_stock: (252000 / 342000) * 100,
+      });
+      assert.equal(stock.by_property_type[3].units, null);
+      assert.match(result.text, /342,000 housing units as of 2024-01-01/);
+    });
+
+    it("reports the all-cash share over time", async () => {
+      const result = await runTool(getParclHousingStock, { location: "Austin, TX", months: 12 });
+      const allCash = result.data.all_cash;
+
+      assert.equal(allCash.history.length, 12);
+      assert.deepEqual(allCash.latest, { date: "2024-01-01", pct_all_cash: 30.5, count: 311 });
+      assert.equal(allCash.change_pct_points, 5.5);
+      assert.equal(result.data.as_of, "2024-01-01");
+      assert.equal(result.ui.type, "chart");
+      assert.ok(
+        server.requests.some(
+          (request) => request.includes("/all_cash?") && request.includes("limit=12")
+        )
+      );
+    });
+
+    it("reports a market without housing stock", async () => {
+      const result = await runTool(getParclHousingStock, { location: `${EMPTYVILLE.name}, KS` });
+
+      assert.equal(result.data.error.code, "NO_DATA");
+    });
+  });
+
+  describe("get-sale-inventory-analysis", () => {
+    it("reports the inventory trend over the requested weeks", async () => {
+      const result = await runTool(getParclSaleInventoryAnalysis, {
+        location: "Austin, TX",
+        weeks: 12,
+      });
+      const { inventory } = result.data;
+
+      assert.equal(inventory.history.length, 12);
+      assert.deepEqual(inventory.latest, { date: "2024-01-30", value: 4290 });
+      assert.equal(inventory.trend.direction, "rising");
+      assert.equal(inventory.trend.change, 110);
+      assert.equal(result.data.as_of, "2024-01-30");
+    });
+
+    it("reports price cuts as a share of inventory", async () => {
+      const result = await runTool(getParclSaleInventoryAnalysis, { location: "Austin, TX" });
+      const cuts = result.data.price_cuts;
+
+      assert.equal(cuts.date, "2024-01-29");
+      assert.equal(cuts.count_price_drop, 1100);
+      assert.equal(cuts.pct_inventory_price_drop, (1100 / 4280) * 100);
+      assert.equal(cuts.median_pct_price_change, -3.1);
+    });
+
+    it("reports new listing velocity and softening signals", async () => {
+      const result = await runTool(getParclSaleInventoryAnalysis, { location: "Austin, TX" });
+      const listings = result.data.new_listings;
+
+      assert.equal(listings.rolling_7_day, 210);
+      assert.equal(listings.weekly_pace_90_day, 280);
+      assert.equal(listings.velocity, "slowing");
+      assert.deepEqual(result.data.softening_signals, [
+        "for-sale inventory is rising",
+        "more than 20% of listings have had a price cut",
+        "new listings are slowing",
+      ]);
+      assert.match(result.text, /Softening signals/);
+    });
+
+    it("still reports the inventory trend without price change or listing data", async () => {
+      server.override(/price_changes|rolling_counts$/, {
+        status: 200,
+        body: { items: [], total: 0, limit: 1, offset: 0, links: {} },
+      });
+      const result = await runTool(getParclSaleInventoryAnalysis, { location: "Austin, TX" });
+
+      assert.equal(result.data.price_cuts, null);
+      assert.equal(result.data.new_listings, null);
+      assert.deepEqual(result.data.softening_signals, ["for-sale inventory is rising"]);
+    });
+  });
+
+  describe("get-rental-supply", () => {
+    it("compares rolling new rental listings with the same period last year", async () => {
+      const result = await runTool(getParclRentalSupply, { location: "Austin, TX" });
+      const listings = result.data.new_rental_listings;
+
+      assert.equal(listings.latest.date, "2024-01-29");
+      assert.equal(listings.latest.rolling_30_day, 636);
+      assert.equal(listings.year_ago.date, "2023-01-30");
+      assert.equal(listings.year_ago.rolling_30_day, 428);
+      assert.equal(listings.yoy_change_pct.rolling_30_day, ((636 - 428) / 428) * 100);
+      assert.equal(listings.history.length, 52);
+      assert.match(result.text, /\+48\.60% from the same period a year earlier/);
+    });
+
+    it("reports no year-ago comparison when the weeks around it are missing", async () => {
+      const items = (
+        FEEDS.new_listings_for_rent_rolling_counts[AUSTIN.parcl_id] as Array<{ date: string }>
+      ).filter(({ date }) => date < "2023-01-16" || date > "2023-02-13");
+      server.override(/\/new_listings_for_rent_rolling_counts$/, {
+        status: 200,
+        body: { items, total: items.length },
+      });
+      const result = await runTool(getParclRentalSupply, { location: "Austin, TX" });
+      const listings = result.data.new_rental_listings;
+
+      assert.equal(listings.year_ago, null);
+      assert.equal(listings.yoy_change_pct, null);
+      assert.match(result.text, /no listing counts from a year earlier/);
+    });
+
+    it("reports the rental concentration and its year-over-year change", async () => {
+      const result = await runTool(getParclRentalSupply, { location: "Austin, TX", months: 6 });
+      const concentration = result.data.rental_concentration;
+
+      assert.equal(concentration.latest.pct_rental_concentration, 27.875);
+      assert.equal(concentration.year_ago.date, "2023-01-01");
+      assert.equal(concentration.change_pct_points, 1.5);
+      assert.equal(concentration.history.length, 6);
+    });
+
+    it("reports the older section as the as-of date", async () => {
+      const result = await runTool(getParclRentalSupply, { location: "Austin, TX" });
+
+      assert.equal(result.data.as_of, "2024-01-01");
+      assert.equal(result.data.new_rental_listings.as_of, "2024-01-29");
+    });
+
+    it("reports a market without rental supply data", async () => {
+      const result = await runTool(getParclRentalSupply, { location: `${EMPTYVILLE.name}, KS` });
+
+      assert.equal(result.data.error.code, "NO_DATA");
+    });
+  });
+
+  describe("get-new-construction", () => {
+    const input = { location: "Austin, TX", start_date: "2023-01-01" };
+
+    it("returns monthly new-construction sales and median prices", async () => {
+      const result = await runTool(getParclNewConstruction, input);
+
+      assert.equal(result.data.months.length, 12);
+      assert.deepEqual(result.data.totals, { sales: 1266, new_listings_for_sale: 1800 });
+      assert.equal(result.data.months[11].median_sale_price, 605000);
+      assert.equal(result.data.months[11].median_list_price, 575000);
+      assert.equal(result.data.as_of, "2024-01-01");
+    });
+
+    it("computes the premium over the market median sale price", async () => {
+      const result = await runTool(getParclNewConstruction, input);
+
+      assert.equal(result.data.months[11].market_median_sale_price, 555000);
+      assert.equal(result.data.price_premium_pct.latest, (50000 / 555000) * 100);
+      assert.match(result.text, /a premium of \+9\.01%/);
+      assert.ok(server.requests.some((request) => request.includes("/market_metrics/")));
+    });
+
+    it("leaves the premium empty for months without a market median", async () => {
+      server.override(/\/market_metrics\/\d+\/housing_event_prices$/, {
+        status: 200,
+        body: { items: [], total: 0, limit: 12, offset: 0, links: {} },
+      });
+      const result = await runTool(getParclNewConstruction, input);
+
+      assert.equal(result.data.months[11].price_premium_pct, null);
+      assert.deepEqual(result.data.price_premium_pct, { latest: null, average: null });
+    });
+
+    it("reports a market without new construction", async () => {
+      const result = await runTool(getParclNewConstruction, {
+        ...input,
+        location: `${EMPTYVILLE.name}, KS`,
+      });
+
+      assert.equal(result.data.error.code, "NO_DATA");
+    });
+  });
+
+  describe("compare-markets", () => {
+    const locations = ["Austin, TX", "Springfield, IL", "Springfield, MO"];
+
+    // The comparison looks back 30 days from today, so today is pinned just after the fixtures.
+    beforeEach(() => {
+      mock.timers.enable({ apis: ["Date"], now: new Date("2024-02-05T00:00:00Z") });
+    });
+
+    afterEach(() => {
+      mock.timers.reset();
+    });
+
+    it("ranks markets by price-to-rent ratio with missing ratios last", async () => {
+      const result = await runTool(compareParclMarkets, { locations });
+      const [first, second, third] = result.data.markets;
+
+      assert.deepEqual(
+        result.data.markets.map((row: { parcl_id: number }) => row.parcl_id),
+        [5900100, AUSTIN.parcl_id, 5900101]
+      );
+      assert.equal(first.rank, 1);
+      assert.equal(first.price, 229);
+      assert.equal(first.rental_price, 1.49);
+      assert.equal(first.price_to_rent_ratio, 229 / (1.49 * 12));
+      assert.equal(second.price_to_rent_ratio, 329 / (1.79 * 12));
+      assert.equal(third.rental_price, null);
+      assert.equal(third.price_to_rent_ratio, null);
+      assert.equal(third.as_of, "2024-01-30");
+      assert.match(result.text, /1\. Springfield, IL — price 229\/sqft, rent 1\.49\/sqft/);
+      assert.equal(result.ui.type, "table");
+    });
+
+    it("ranks by the requested metric", async () => {
+      const result = await runTool(compareParclMarkets, { locations, rank_by: "price" });
+
+      assert.deepEqual(
+        result.data.markets.map((row: { price: number }) => row.price),
+        [179, 229, 329]
+      );
+    });
+
+    it("fetches every market in one batch request per feed", async () => {
+      await runTool(compareParclMarkets, { locations });
+
+      assert.deepEqual(
+        server.requests.filter((request) => request.startsWith("POST")),
+        ["POST /v1/price_feed/price_feed", "POST /v1/price_feed/rental_price_feed"]
+      );
+    });
+
+    it("reports locations that match no market", async () => {
+      const result = await runTool(compareParclMarkets, { locations: ["Austin, TX", "Atlantis"] });
+
+      assert.equal(result.data.markets.length, 1);
+      assert.equal(result.data.unresolved[0].query, "Atlantis");
+      assert.match(result.text, /Could not match: Atlantis/);
+    });
+
+    it("ranks a market without observations last", async () => {
+      const result = await runTool(compareParclMarkets, {
+        locations: [`${EMPTYVILLE.name}, KS`, "Austin, TX"],
+      });
+      const [, empty] = result.data.markets;
+
+      assert.equal(empty.parcl_id, EMPTYVILLE.parcl_id);
+      assert.equal(empty.price, null);
+      assert.equal(empty.rental_price, null);
+      assert.equal(empty.as_of, null);
+    });
+
+    it("renders a comparison without any matched market as a card", async () => {
+      const result = await runTool(compareParclMarkets, { locations: ["Atlantis", "Lemuria"] });
+
+      assert.equal(result.data.markets.length, 0);
+      assert.equal(result.ui.type, "card");
+      assert.equal(server.requests.filter((request) => request.startsWith("POST")).length, 0);
+    });
+  });
+
+  describe("get-parcl-gross-yield", () => {
+    it("reports the latest yield and its change from a year earlier", async () => {
+      const result = await runTool(getParclGrossYield, { location: "Austin, TX" });
+
+      assert.equal(result.data.value, 6.875);
+      assert.equal(result.data.date, "2024-01-01");
+      assert.equal(result.data.unit, "percent");
+      assert.deepEqual(result.data.previous_year, { date: "2023-01-01", value: 5.375 });
+      assert.equal(result.data.change_pct_points, 1.5);
+      assert.match(result.text, /up 1\.50 percentage points from 5\.375% on 2023-01-01/);
+      assert.equal(result.ui.type, "card");
+    });
+
+    it("returns the requested months of history without missing months", async () => {
+      const result = await runTool(getParclGrossYield, { location: "Austin, TX" });
+      const dates = result.data.history.map((point: { date: string }) => point.date);
+
+      assert.equal(dates.length, 12);
+      assert.equal(dates[0], "2023-01-01");
+      assert.ok(!dates.includes("2023-12-01"));
+    });
+
+    it("requests an extra year for the comparison", async () => {
+      const result = await runTool(getParclGrossYield, {
+        location: "Austin, TX",
+        property_type: "CONDO",
+        months: 6,
+      });
+
+      assert.equal(result.data.history.length, 6);
+      assert.ok(
+        server.requests.some(
+          (request) =>
+            request.includes("/gross_yield?") &&
+            request.includes("property_type=CONDO") &&
+            request.includes("limit=18")
+        )
+      );
+    });
+  });
+
+  describe("get-parcl-investor-activity", () => {
+    const input = { location: "Austin, TX", start_date: "2023-01-01" };
+
+    it("totals acquisitions and dispositions over the period", async () => {
+      const result = await runTool(getParclInvestorActivity, input);
+
+      assert.equal(result.data.months.length, 12);
+      assert.deepEqual(result.data.months[11], {
+        date: "2024-01-01",
+        acquisitions: 255,
+        dispositions: 180,
+        net_buying: 75,
+      });
+      assert.equal(result.data.acquisitions, 2730);
+      assert.equal(result.data.dispositions, 2160);
+      assert.equal(result.data.net_buying, 570);
+      assert.deepEqual(result.data.period, { start_date: "2023-02-01", end_date: "2024-01-01" });
+      assert.match(result.text, /a net buying position of 570 homes/);
+    });
+
+    it("reports the purchase-to-sale ratio and investor ownership", async () => {
+      const result = await runTool(getParclInvestorActivity, input);
+
+      assert.deepEqual(result.data.purchase_to_sale_ratio.latest, {
+        date: "2024-01-01",
+        value: 2.375,
+      });
+      assert.equal(result.data.purchase_to_sale_ratio.average, 1.6875);
+      assert.deepEqual(result.data.ownership, {
+        date: "2024-01-01",
+        count: 51100,
+        pct_ownership: 14.75,
+        change_pct_points: 2.75,
+      });
+    });
+
+    it("limits every endpoint to the requested period", async () => {
+      const result = await runTool(getParclInvestorActivity, { ...input, end_date: "2023-06-01" });
+
+      assert.equal(result.data.months.length, 5);
+      assert.equal(result.data.ownership.date, "2023-06-01");
+      assert.equal(
+        server.requests.filter(
+          (request) =>
+            request.includes("/investor_metrics/") && request.includes("end_date=2023-06-01")
+        ).length,
+        3
+      );
+    });
+  });
+
+  describe("get-parcl-portfolio-activity", () => {
+    const input = { location: "Austin, TX", start_date: "2023-01-01" };
+
+    it("reports ownership and trading for each portfolio size tier", async () => {
+      const result = await runTool(getParclPortfolioActivity, input);
+      const tiers = Object.fromEntries(
+        result.data.tiers.map((tier: { portfolio_size: string }) => [tier.portfolio_size, tier])
+      );
+
+      assert.equal(result.data.tiers.length, 5);
+      assert.deepEqual(tiers.PORTFOLIO_2_TO_9, {
+        portfolio_size: "PORTFOLIO_2_TO_9",
+        homes_owned: 40110,
+        pct_sf_housing_stock: 17.375,
+        share_change_pct_points: 1.375,
+        acquisitions: 600,
+        dispositions: 480,
+        net_buying: 120,
+        new_listings_for_sale_30_day: 44,
+        new_listings_for_rent_30_day: 84,
+        direction: "entering",
+      });
+      assert.equal(tiers.PORTFOLIO_1000_PLUS.net_buying, -120);
+      assert.equal(tiers.PORTFOLIO_1000_PLUS.direction, "exiting");
+      assert.equal(tiers.PORTFOLIO_10_TO_99.direction, "neutral");
+      assert.equal(result.data.ownership_date, "2024-01-01");
+      assert.match(result.text, /PORTFOLIO_1000_PLUS owns 11890 homes \(3\.625% of stock\)/);
+    });
+
+    it("reports the total across all portfolios", async () => {
+      const result = await runTool(getParclPortfolioActivity, input);
+      const total = result.data.tiers.find(
+        (tier: { portfolio_size: string }) => tier.portfolio_size === "ALL_PORTFOLIOS"
+      );
+
+      assert.equal(total.homes_owned, 65000);
+      assert.equal(total.pct_sf_housing_stock, 26);
+      assert.equal(total.acquisitions, 1080);
+      assert.equal(total.dispositions, 1080);
+      assert.equal(total.direction, "neutral");
+      assert.ok(
+        server.requests.some((request) => request.includes("portfolio_size=ALL_PORTFOLIOS"))
+      );
+    });
+
+    it("only requests the selected tiers", async () => {
+      const result = await runTool(getParclPortfolioActivity, {
+        ...input,
+        portfolio_sizes: ["PORTFOLIO_1000_PLUS"],
+      });
+      const tierRequests = server.requests.filter((request) => request.includes("portfolio_size="));
+
+      assert.equal(result.data.tiers.length, 1);
+      assert.equal(tierRequests.length, 3);
+      assert.ok(tierRequests.every((request) => request.includes("PORTFOLIO_1000_PLUS")));
+    });
+  });
+
+  describe("search-properties", () => {
+    it("finds properties in a market", async () => {
+      const result = await runTool(searchParclProperties, {
+        location: "Austin, TX",
+        property_type: "SINGLE_FAMILY",
+      });
+
+      assert.equal(result.data.total, 2);
+      assert.deepEqual(
+        result.data.properties.map(
+          (property: { parcl_property_id: number }) => property.parcl_property_id
+        ),
+        [1002, 1003]
+      );
+      assert.equal(result.data.properties[0].investor_owned, true);
+      assert.equal(result.data.properties[0].owner_occupied, false);
+      assert.equal(result.data.next_offset, null);
+      assert.match(result.text, /200 LAMAR BLVD, AUSTIN, TX 78704 \(id 1002\)/);
+    });
+
+    it("passes the filters to the API and pages the matches", async () => {
+      const result = await runTool(searchParclProperties, {
+        location: "Austin, TX",
+        property_type: "SINGLE_FAMILY",
+        bedrooms_min: 3,
+        limit: 1,
+      });
+
+      assert.equal(result.data.properties.length, 1);
+      assert.equal(result.data.next_offset, 1);
+      assert.ok(server.requests.some((request) => request.includes("bedrooms_min=3")));
+    });
+
+    it("searches a ZIP code as a ZIP5 market", async () => {
+      const result = await runTool(searchParclProperties, {
+        zip_code: "78701",
+        property_type: "SINGLE_FAMILY",
+      });
+
+      assert.equal(result.data.parcl_id, AUSTIN_78701.parcl_id);
+      assert.deepEqual(
+        result.data.properties.map(
+          (property: { parcl_property_id: number }) => property.parcl_property_id
+        ),
+        [1003]
+      );
+      assert.ok(server.requests.some((request) => request.includes("location_type=ZIP5")));
+    });
+
+    it("rejects a search without a location or an inverted range", async () => {
+      const missing = await runTool(searchParclProperties, { property_type: "CONDO" });
+      const inverted = await runTool(searchParclProperties, {
+        location: "Austin, TX",
+        property_type: "CONDO",
+        bedrooms_min: 4,
+        bedrooms_max: 2,
+      });
+
+      assert.equal(missing.data.error.code, "VALIDATION_ERROR");
+      assert.equal(inverted.data.error.code, "VALIDATION_ERROR");
+      assert.match(inverted.text, /bedrooms_min must not be greater than bedrooms_max/);
+      assert.equal(server.requests.length, 0);
+    });
+
+    it("reports a market without matching properties", async () => {
+      const result = await runTool(searchParclProperties, {
+        location: `${EMPTYVILLE.name}, KS`,
+        property_type: "SINGLE_FAMILY",
+      });
+
+      assert.deepEqual(result.data.properties, []);
+      assert.equal(result.data.total, 0);
+      assert.match(result.text, /No properties in Emptyville/);
+    });
+  });
+
+  describe("lookup-addresses", () => {
+    const addresses = [
+      "100 Congress Ave Apt 4, Austin, TX 78701",
+      "200 Lamar Blvd Austin TX 78704",
+      "1 Nowhere Ln, Austin, TX 78701",
+      "Main St",
+    ];
+
+    it("matches parsed addresses to Parcl properties", async () => {
+      const result = await runTool(lookupParclAddresses, { addresses });
+
+      assert.deepEqual(result.data.matched, [
+        {
+          input: addresses[0],
+          parcl_property_id: 1001,
+          normalized_address: "100 CONGRESS AVE 4, AUSTIN, TX 78701",
+          match_confidence: "high",
+          inferred_fields: [],
+        },
+        {
+          input: addresses[1],
+          parcl_property_id: 1002,
+          normalized_address: "200 LAMAR BLVD, AUSTIN, TX 78704",
+          match_confidence: "medium",
+          inferred_fields: ["city"],
+        },
+      ]);
+      assert.match(result.text, /Matched 2 of 4 addresses/);
+    });
+
+    it("explains why each address was not matched", async () => {
+      const result = await runTool(lookupParclAddresses, { addresses });
+
+      assert.deepEqual(result.data.unmatched, [
+        { input: "Main St", reason: "Could not parse the address: missing a five-digit ZIP code" },
+        { input: addresses[2], reason: "No Parcl property matched this address" },
+      ]);
+    });
+
+    it("skips the API when no address can be parsed", async () => {
+      const result = await runTool(lookupParclAddresses, { addresses: ["Main St"] });
+
+      assert.equal(result.data.matched.length, 0);
+      assert.equal(result.data.cache, null);
+      assert.equal(server.requests.length, 0);
+    });
+
+    it("reports every address as unmatched when the API returns no matches", async () => {
+      server.override(/\/search_address$/, { status: 200, body: [] });
+      const result = await runTool(lookupParclAddresses, { addresses: addresses.slice(0, 2) });
+
+      assert.equal(result.data.matched.length, 0);
+      assert.equal(result.data.unmatched.length, 2);
+    });
+  });
+
+  describe("get-property-history", () => {
+    it("derives sale, listing and rental facts from the event history", async () => {
+      const result = await runTool(getParclPropertyHistory, { parcl_property_ids: [1001] });
+      const [property] = result.data.properties;
+
+      assert.equal(property.parcl_property_id, 1001);
+      assert.equal(property.event_count, 6);
+      assert.deepEqual(property.last_sale, { date: "2020-05-15", price: 450000 });
+      assert.ok(property.hold_period_days > 0);
+      assert.equal(property.appreciation.length, 1);
+      assert.equal(property.appreciation[0].change_pct, 50);
+      assert.equal(property.listing_status, "listed_for_sale");
+      assert.equal(property.last_listing_price, 510000);
+      assert.equal(property.rental_status, "rented_or_withdrawn");
+      assert.equal(property.timeline.length, 6);
+      assert.match(result.text, /Property 1001: last sold for 450000 on 2020-05-15/);
+      assert.match(result.text, /50\.0% appreciation between its last two sales/);
+    });
+
+    it("filters the timeline without changing the derived facts", async () => {
+      const result = await runTool(getParclPropertyHistory, {
+        parcl_property_ids: [1001, 1002],
+        event_type: "SALE",
+        start_date: "2016-01-01",
+      });
+      const [first, second] = result.data.properties;
+
+      assert.deepEqual(
+        first.timeline.map((event: { date: string }) => event.date),
+        ["2020-05-15"]
+      );
+      assert.equal(first.listing_status, "listed_for_sale");
+      assert.equal(second.last_sale.price, 380000);
+      assert.equal(second.listing_status, "not_listed");
+      assert.equal(second.rental_status, "none");
+    });
+
+    it("looks up a property by address", async () => {
+      const result = await runTool(getParclPropertyHistory, {
+        address: "100 Congress Ave Apt 4, Austin, TX 78701",
+      });
+
+      assert.equal(result.data.properties[0].parcl_property_id, 1001);
+      assert.deepEqual(result.data.sources, [
+        "POST /v1/property/search_address",
+        "POST /v1/property/event_history",
+      ]);
+    });
+
+    it("reports addresses that cannot be parsed or matched", async () => {
+      const unparsed = await runTool(getParclPropertyHistory, { address: "Main St" });
+      const unmatched = await runTool(getParclPropertyHistory, {
+        address: "1 Nowhere Ln, Austin, TX 78701",
+      });
+
+      assert.equal(unparsed.data.error.code, "VALIDATION_ERROR");
+      assert.equal(unmatched.data.error.code, "NO_DATA");
+      assert.match(unmatched.text, /No Parcl property matched the address/);
+    });
+
+    it("requires an id or an address", async () => {
+      const result = await runTool(getParclPropertyHistory, {});
+
+      assert.equal(result.data.error.code, "VALIDATION_ERROR");
+      assert.equal(server.requests.length, 0);
+    });
+  });
+
+  describe("get-market-snapshot", () => {
+    it("reports the latest value of every metric", async () => {
+      const result = await runTool(getParclMarketSnapshot, { location: "Austin, TX" });
+
+      assert.deepEqual(result.data.price.value, { price_per_sqft: 329, date: "2024-01-30" });
+      assert.deepEqual(result.data.rent.value, { rent_per_sqft: 1.79, date: "2024-01-30" });
+      assert.equal(result.data.volatility.value.pct_volatility, 0.04);
+      assert.equal(result.data.for_sale_inventory.value.for_sale_inventory, 4290);
+      assert.equal(result.data.housing_stock.value.all_properties, 342000);
+      assert.deepEqual(result.data.all_cash.value, {
+        pct_all_cash: 30.5,
+        count: 311,
+        date: "2024-01-01",
+      });
+      assert.deepEqual(result.data.gross_yield.value, {
+        pct_gross_yield: 6.875,
+        date: "2024-01-01",
+      });
+      assert.deepEqual(result.data.failed, []);
+      assert.equal(result.ui.type, "card");
+    });
+
+    it("reports the metrics that failed alongside those that loaded", async () => {
+      server.override(/\/volatility$/, { status: 500, body: { detail: "Database query error" } });
+      const result = await runTool(getParclMarketSnapshot, { location: "Austin, TX" });
+
+      assert.deepEqual(result.data.failed, ["volatility"]);
+      assert.equal(result.data.volatility.status, "error");
+      assert.equal(result.data.volatility.error.code, "UPSTREAM_ERROR");
+      assert.equal(result.data.price.status, "ok");
+      assert.match(result.text, /Volatility: unavailable \(UPSTREAM_ERROR\)/);
+      assert.match(result.text, /1 of 7 metrics failed to load/);
+    });
+
+    it("lists the stale metrics", async () => {
+      setStaleAfterDays({ daily: 100000 });
+      const result = await runTool(getParclMarketSnapshot, { location: "Austin, TX" });
+
+      assert.deepEqual(result.data.stale, [
+        "for_sale_inventory",
+        "housing_stock",
+        "all_cash",
+        "gross_yield",
+      ]);
+      assert.match(result.text, /Stale data: for_sale_inventory/);
+    });
+  });
+
+  describe("search-markets", () => {
+    it("lists matching markets with their parcl_id", async () => {
+      const result = await runTool(searchParclMarkets, { query: "Springfield" });
+
+      assert.deepEqual(
+        result.data.markets.map((market: { parcl_id: number }) => market.parcl_id),
+        [5900101, 5900100]
+      );
+    });
+
+    it("returns an empty list when nothing matches", async () => {
+      const result = await runTool(searchParclMarkets, { query: "Atlantis" });
+
+      assert.equal(result.data.markets.length, 0);
+    });
+  });
+
+  describe("market resolution", () => {
+    it("picks the dominant market for a bare city name", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Austin" });
+
+      assert.equal(result.data.value, 329);
+    });
+
+    it("asks for clarification when several markets match", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Springfield" });
+
+      assert.equal(result.data.error.code, "MARKET_AMBIGUOUS");
+      assert.equal(result.data.candidates.length, 2);
+    });
+
+    it("uses a state abbreviation given without a comma", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Springfield IL" });
+
+      assert.equal(result.data.parcl_id, 5900100);
+      assert.equal(result.data.value, 229);
+    });
+
+    it("uses a full state name given without a comma", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Springfield Missouri" });
+
+      assert.equal(result.data.parcl_id, 5900101);
+      assert.equal(result.data.value, 179);
+    });
+
+    it("falls back to the whole name when it only ends in a state name", async () => {
+      const result = await resolveMarket("Port Washington");
+
+      assert.equal(result.status, "resolved");
+      assert.equal(
+        result.status === "resolved" && result.market.parcl_id,
+        PORT_WASHINGTON.parcl_id
+      );
+    });
+
+    it("reports unknown markets", async () => {
+      const result = await runTool(getParclPriceFeed, { location: "Atlantis" });
+
+      assert.equal(result.data.error.code, "MARKET_NOT_FOUND");
+    });
+  });
+
+  for (const { tool, route, input, empty, emptyOn404 } of ERROR_CASES) {
+    describe(`${tool.id} errors`, () => {
+      it("reports a rejected API key", async () => {
+        setParclClient(new ParclClient({ apiKey: "wrong-key", baseUrl: server.url }));
+        const result = await runTool(tool, input);
+
+        assert.equal(result.data.error.code, "UNAUTHORIZED");
+        assert.equal(result.data.error.retryable, false);
+      });
+
+      if (emptyOn404) {
+        it("reports a 404 as no matches", async () => {
+          server.override(route, { status: 404, body: { detail: "No data" } });
+          const result = await runTool(tool, input);
+
+          assert.equal(result.data.error, undefined);
+          assert.deepEqual(result.data.markets, []);
+        });
+      } else {
+        it("reports a missing market as not found", async () => {
+          server.override(route, { status: 404, body: { detail: "No data" } });
+          const result = await runTool(tool, input);
+
+          assert.equal(result.data.error.code, "NOT_FOUND");
+          assert.match(result.text, /No data/);
+        });
+      }
+
+      it("reports server errors as retryable", async () => {
+        server.override(route, { status: 500, body: { detail: "Database query error" } });
+        const result = await runTool(tool, input);
+
+        assert.equal(result.data.error.code, "UPSTREAM_ERROR");
+        assert.equal(result.data.error.status, 500);
+        assert.equal(result.data.error.retryable, true);
+      });
+
+      if (empty) {
+        it("reports a request without observations", async () => {
+          const result = await runTool(tool, empty);
+
+          assert.equal(result.data.error.code, "NO_DATA");
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,46 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+import { lineChart, metricCard, table } from "../src/ui";
+
+describe("ui builders", () => {
+  it("renders a metric card with its unit, date and change badges", () => {
+    const ui = metricCard({
+      title: "Price",
+      value: 1234.567,
+      unit: "USD per square foot",
+      date: "2024-01-30",
+      stale: true,
+      changes: [
+        { label: "30d", change_pct: 2.5 },
+        { label: "YoY", change_pct: -1.25 },
+        { label: "90d", change_pct: null },
+      ],
+    });
+    const { title, content } = JSON.parse(ui.uiData);
+
+    assert.equal(ui.type, "card");
+    assert.equal(title, "Price");
+    assert.deepEqual(content.split("\n"), [
+      "1,234.57 USD per square foot",
+      "As of 2024-01-30 (stale)",
+      "▲ 30d +2.50%   ▼ YoY -1.25%   • 90d n/a",
+    ]);
+  });
+
+  it("renders tables and line charts", () => {
+    const columns = [{ key: "name", header: "Name", type: "text" as const }];
+
+    assert.deepEqual(JSON.parse(table(columns, [{ name: "Austin" }]).uiData), {
+      columns,
+      rows: [{ name: "Austin" }],
+    });
+    assert.equal(
+      JSON.parse(
+        lineChart({ title: "t", description: "d", series: [{ date: "2024-01-01", value: 1 }] })
+          .uiData
+      ).xKey,
+      "date"
+    );
+  });
+});